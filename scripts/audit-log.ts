@@ -0,0 +1,142 @@
+/**
+ * Mutation Audit Journal
+ *
+ * Append-only JSONL record of every write made through ShopifyMCPClient,
+ * with the entity state before the change so reversible edits can be undone.
+ */
+
+import { appendFileSync, closeSync, existsSync, mkdirSync, openSync, readFileSync, readSync, statSync } from "fs";
+import { randomUUID } from "crypto";
+import { dirname, join } from "path";
+import { DATA_DIR } from "./config.js";
+
+export const DEFAULT_AUDIT_LOG_PATH = join(DATA_DIR, "audit-log.jsonl");
+
+export interface AuditEntry {
+  id: string;
+  timestamp: string;
+  store: string;
+  /** MCP tool that performed the write */
+  command: string;
+  /** ID, order number or title of the entity written */
+  entityId: string;
+  args: Record<string, unknown>;
+  /** Entity state before the change, or null if it could not be fetched */
+  before: unknown;
+  result?: unknown;
+  error?: string;
+  /** Set when this entry reverted an earlier one */
+  undoOf?: string;
+}
+
+export interface AuditFilter {
+  entityId?: string;
+  command?: string;
+  /** ISO date or timestamp; entries at or after */
+  since?: string;
+  /** ISO date or timestamp; entries at or before */
+  until?: string;
+  limit?: number;
+}
+
+export class AuditLog {
+  // Malformed lines last reported, so each read doesn't repeat the warning
+  private reportedMalformed = "";
+
+  /**
+   * @param onMalformed - Called with the line numbers of entries that couldn't be parsed and were skipped
+   */
+  constructor(
+    private readonly path: string = DEFAULT_AUDIT_LOG_PATH,
+    private readonly onMalformed?: (lines: number[], path: string) => void
+  ) {}
+
+  /**
+   * Appends an entry, assigning its ID and timestamp.
+   */
+  append(entry: Omit<AuditEntry, "id" | "timestamp">): AuditEntry {
+    const full: AuditEntry = {
+      id: randomUUID(),
+      timestamp: new Date().toISOString(),
+      ...entry,
+    };
+    mkdirSync(dirname(this.path), { recursive: true });
+    // After a crash mid-append, start a new line rather than extending the truncated one
+    const separator = this.endsMidLine() ? "\n" : "";
+    appendFileSync(this.path, separator + JSON.stringify(full) + "\n");
+    return full;
+  }
+
+  /**
+   * Reads entries matching a filter, newest first.
+   */
+  read(filter: AuditFilter = {}): AuditEntry[] {
+    const since = filter.since ? Date.parse(filter.since) : undefined;
+    // Date-only "until" covers the whole day
+    const until = filter.until
+      ? Date.parse(/^\d{4}-\d{2}-\d{2}$/.test(filter.until) ? `${filter.until}T23:59:59.999Z` : filter.until)
+      : undefined;
+
+    const entries = this.all()
+      .filter((e) => !filter.entityId || e.entityId === filter.entityId || e.entityId.endsWith(`/${filter.entityId}`))
+      .filter((e) => !filter.command || e.command === filter.command)
+      .filter((e) => since === undefined || Date.parse(e.timestamp) >= since)
+      .filter((e) => until === undefined || Date.parse(e.timestamp) <= until)
+      .reverse();
+
+    return filter.limit ? entries.slice(0, filter.limit) : entries;
+  }
+
+  /**
+   * Finds a single entry by ID (or unique ID prefix).
+   */
+  get(id: string): AuditEntry | undefined {
+    const matches = this.all().filter((e) => e.id === id || e.id.startsWith(id));
+    if (matches.length > 1) throw new Error(`Audit entry ID prefix "${id}" is ambiguous`);
+    return matches[0];
+  }
+
+  /**
+   * Finds the entry that undid the given one, if any.
+   */
+  findUndo(id: string): AuditEntry | undefined {
+    return this.all().find((e) => e.undoOf === id && !e.error);
+  }
+
+  /**
+   * Every parsable entry, oldest first. Malformed lines (e.g. one cut short
+   * by a crash) are skipped and reported through onMalformed.
+   */
+  private all(): AuditEntry[] {
+    if (!existsSync(this.path)) return [];
+    const entries: AuditEntry[] = [];
+    const malformed: number[] = [];
+    readFileSync(this.path, "utf-8").split("\n").forEach((line, i) => {
+      if (!line.trim()) return;
+      try {
+        entries.push(JSON.parse(line) as AuditEntry);
+      } catch {
+        malformed.push(i + 1);
+      }
+    });
+
+    const key = malformed.join(",");
+    if (malformed.length && key !== this.reportedMalformed) this.onMalformed?.(malformed, this.path);
+    this.reportedMalformed = key;
+    return entries;
+  }
+
+  private endsMidLine(): boolean {
+    if (!existsSync(this.path)) return false;
+    const { size } = statSync(this.path);
+    if (size === 0) return false;
+    const fd = openSync(this.path, "r");
+    try {
+      const last = Buffer.alloc(1);
+      readSync(fd, last, 0, 1, size - 1);
+      return last[0] !== 0x0a;
+    } finally {
+      closeSync(fd);
+    }
+  }
+}
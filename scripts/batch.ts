@@ -0,0 +1,139 @@
+/**
+ * Batch Mode
+ *
+ * Runs many CLI commands from NDJSON input over one client connection.
+ * Each input line is {"cmd": "...", "args": {...}, "id": ...}; each gets one
+ * output line with the same id, in completion order. Arguments go through
+ * the command's own schema, so a line is validated exactly like the
+ * equivalent command-line call. A failing line doesn't stop the batch.
+ */
+
+import { createInterface } from "readline";
+import { z } from "@local/cli-utils";
+import type { ShopifyMCPClient } from "./mcp-client.js";
+import { ShopifyToolError } from "./tool-errors.js";
+
+export interface BatchLine {
+  /** Correlation ID, echoed on the result line */
+  id?: string | number;
+  cmd: string;
+  args?: Record<string, unknown>;
+}
+
+export interface BatchLineResult {
+  /** 1-based input line number */
+  line: number;
+  id?: string | number;
+  cmd?: string;
+  ok: boolean;
+  result?: unknown;
+  error?: { message: string; code?: string; issues?: string[] };
+}
+
+export interface BatchOptions {
+  input: NodeJS.ReadableStream;
+  output: NodeJS.WritableStream;
+  /** Lines run in parallel (default: 1, i.e. in input order) */
+  concurrency?: number;
+  /** Commands that can't run inside a batch */
+  exclude?: string[];
+}
+
+export interface BatchSummary {
+  total: number;
+  succeeded: number;
+  failed: number;
+}
+
+/** The parts of a createCommand() entry a batch needs */
+export interface BatchCommand {
+  schema: z.ZodTypeAny;
+  handler: (args: any, client: ShopifyMCPClient) => Promise<unknown>;
+}
+
+/**
+ * Runs every input line and writes a result line for each.
+ *
+ * @param commands - The CLI's command map
+ * @param client - Client shared by all lines
+ */
+export async function runBatch(
+  commands: Record<string, BatchCommand>,
+  client: ShopifyMCPClient,
+  options: BatchOptions
+): Promise<BatchSummary> {
+  const concurrency = Math.max(1, options.concurrency ?? 1);
+  const exclude = new Set(options.exclude ?? []);
+  const running = new Set<Promise<void>>();
+  let total = 0;
+  let failed = 0;
+  let lineNumber = 0;
+
+  const run = async (text: string, line: number) => {
+    const entry = await runLine(commands, client, exclude, text, line);
+    if (!entry.ok) failed++;
+    options.output.write(JSON.stringify(entry) + "\n");
+  };
+
+  for await (const text of createInterface({ input: options.input, crlfDelay: Infinity })) {
+    lineNumber++;
+    if (!text.trim()) continue;
+    total++;
+
+    const task = run(text, lineNumber).finally(() => running.delete(task));
+    running.add(task);
+    if (running.size >= concurrency) await Promise.race(running);
+  }
+  await Promise.all(running);
+
+  return { total, succeeded: total - failed, failed };
+}
+
+async function runLine(
+  commands: Record<string, BatchCommand>,
+  client: ShopifyMCPClient,
+  exclude: Set<string>,
+  text: string,
+  line: number
+): Promise<BatchLineResult> {
+  let input: BatchLine;
+  try {
+    input = JSON.parse(text);
+  } catch {
+    return { line, ok: false, error: { message: "Line is not valid JSON" } };
+  }
+  if (!input || typeof input !== "object" || typeof input.cmd !== "string") {
+    return { line, ok: false, error: { message: 'Line needs a "cmd" string' } };
+  }
+
+  const { id, cmd } = input;
+  const base = { line, ...(id !== undefined ? { id } : {}), cmd };
+  const command = Object.hasOwn(commands, cmd) && !exclude.has(cmd) ? commands[cmd] : undefined;
+  if (!command) {
+    return { ...base, ok: false, error: { message: `Unknown or unsupported command "${cmd}" in batch` } };
+  }
+
+  const parsed = command.schema.safeParse(input.args ?? {});
+  if (!parsed.success) {
+    return {
+      ...base,
+      ok: false,
+      error: {
+        message: "Invalid arguments",
+        issues: parsed.error.issues.map((issue: z.ZodIssue) =>
+          issue.path.length ? `--${issue.path.join(".")}: ${issue.message}` : issue.message),
+      },
+    };
+  }
+
+  try {
+    return { ...base, ok: true, result: await command.handler(parsed.data, client) };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return {
+      ...base,
+      ok: false,
+      error: { message, ...(error instanceof ShopifyToolError ? { code: error.code } : {}) },
+    };
+  }
+}
@@ -0,0 +1,282 @@
+/**
+ * Bulk Updates
+ *
+ * Applies order/customer updates from a CSV or JSONL file over a single
+ * client connection, with bounded concurrency, a per-row result file and
+ * a checkpoint so interrupted runs resume where they stopped.
+ */
+
+import { createHash } from "crypto";
+import { appendFileSync, existsSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { extname } from "path";
+import { parseCsvRecords } from "./csv.js";
+import { parseTagList } from "./tags.js";
+import type { ShopifyMCPClient } from "./mcp-client.js";
+
+export interface BulkRow {
+  /** Entity type; inferred from the GID when omitted */
+  type?: "order" | "customer";
+  id: string;
+  /** Replace all tags (comma-separated) */
+  tags?: string;
+  /** Add tags, keeping existing ones (comma-separated) */
+  addTags?: string;
+  /** Remove tags, keeping the rest (comma-separated) */
+  removeTags?: string;
+  note?: string;
+  email?: string;
+  phone?: string;
+  firstName?: string;
+  lastName?: string;
+}
+
+export interface BulkRowResult {
+  row: number;
+  id: string;
+  status: "ok" | "dry-run" | "error";
+  result?: unknown;
+  error?: string;
+}
+
+export interface BulkUpdateOptions {
+  /** CSV or JSONL input file */
+  input: string;
+  /** Per-row JSONL result file (default: <input>.results.jsonl) */
+  out?: string;
+  /** Rows processed in parallel (default: 4) */
+  concurrency?: number;
+  /** Entity type for rows without a type column or GID */
+  type?: "order" | "customer";
+  /** Ignore an existing checkpoint and start over */
+  restart?: boolean;
+}
+
+export interface BulkUpdateSummary {
+  input: string;
+  out: string;
+  total: number;
+  /** Rows skipped because a previous run completed them */
+  resumed: number;
+  succeeded: number;
+  failed: number;
+  dryRun: boolean;
+}
+
+interface Checkpoint {
+  input: string;
+  /** SHA-256 of the input file; row indexes only mean something for the same contents */
+  inputHash: string;
+  completed: number[];
+}
+
+/**
+ * Reads bulk input rows from a .csv or .jsonl/.ndjson file.
+ */
+export function readRecords(path: string): Record<string, any>[] {
+  const text = readFileSync(path, "utf-8");
+  const ext = extname(path).toLowerCase();
+
+  if (ext === ".csv") return parseCsvRecords(text);
+  if (ext === ".jsonl" || ext === ".ndjson") {
+    return text
+      .split("\n")
+      .filter((line) => line.trim())
+      .map((line, i) => {
+        try {
+          return JSON.parse(line);
+        } catch {
+          throw new Error(`${path}: line ${i + 1} is not valid JSON`);
+        }
+      });
+  }
+
+  throw new Error(`Unsupported input file type "${ext}" (expected .csv, .jsonl or .ndjson)`);
+}
+
+/**
+ * Runs a bulk update. Rows that completed in an earlier run on the same
+ * file contents (per the checkpoint) are skipped and the result file is
+ * appended to; failed rows are retried. Otherwise the result file starts
+ * empty. In dry-run mode, previews are written to the result file and the
+ * checkpoint is left untouched.
+ *
+ * @param client - Connected or connectable client (shared by all rows)
+ * @param options - Input, output and concurrency options
+ */
+export async function runBulkUpdate(
+  client: ShopifyMCPClient,
+  options: BulkUpdateOptions
+): Promise<BulkUpdateSummary> {
+  const rows = readRecords(options.input) as BulkRow[];
+  const out = options.out ?? `${options.input}.results.jsonl`;
+  const checkpointPath = `${out}.checkpoint.json`;
+  const concurrency = Math.max(1, options.concurrency ?? 4);
+
+  const inputHash = createHash("sha256").update(readFileSync(options.input)).digest("hex");
+  const checkpoint = loadCheckpoint(checkpointPath, options, inputHash);
+  if (!checkpoint) writeFileSync(out, "");
+  const completed = new Set(checkpoint?.completed);
+  const pending = rows.map((_, i) => i).filter((i) => !completed.has(i));
+
+  const dryRun = client.isDryRunEnabled();
+  let succeeded = 0;
+  let failed = 0;
+  let next = 0;
+  // Rows for the same entity run one after another, so their tag read-modify-writes can't race
+  const chains = new Map<string, Promise<void>>();
+
+  const processRow = async (index: number) => {
+    const row = rows[index];
+    let entry: BulkRowResult;
+
+    try {
+      const result = await applyRow(client, row, options.type);
+      entry = { row: index + 1, id: row.id, status: dryRun ? "dry-run" : "ok", result };
+      succeeded++;
+      if (!dryRun) {
+        completed.add(index);
+        saveCheckpoint(checkpointPath, { input: options.input, inputHash, completed: [...completed] });
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      entry = { row: index + 1, id: row?.id, status: "error", error: message };
+      failed++;
+    }
+
+    appendFileSync(out, JSON.stringify(entry) + "\n");
+  };
+
+  const worker = async () => {
+    while (next < pending.length) {
+      const index = pending[next++];
+      const key = entityKey(rows[index], options.type) ?? `row:${index}`;
+      const run = (chains.get(key) ?? Promise.resolve()).then(() => processRow(index));
+      chains.set(key, run);
+      await run;
+      if (chains.get(key) === run) chains.delete(key);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, pending.length) }, worker));
+
+  // A fully successful run needs no checkpoint
+  if (completed.size === rows.length && existsSync(checkpointPath)) rmSync(checkpointPath);
+
+  return {
+    input: options.input,
+    out,
+    total: rows.length,
+    resumed: rows.length - pending.length,
+    succeeded,
+    failed,
+    dryRun,
+  };
+}
+
+/**
+ * Applies one row through the client's normal (audited, dry-run aware) write path.
+ */
+async function applyRow(client: ShopifyMCPClient, row: BulkRow, defaultType?: "order" | "customer") {
+  const { type, id } = rowEntity(row, defaultType);
+
+  if (row.tags && (row.addTags || row.removeTags)) {
+    throw new Error("Use either tags or addTags/removeTags, not both");
+  }
+
+  const results: Record<string, unknown> = {};
+
+  if (row.addTags) results.addTags = await client.modifyTags(type, id, "add", parseTagList(row.addTags));
+  if (row.removeTags) results.removeTags = await client.modifyTags(type, id, "remove", parseTagList(row.removeTags));
+
+  const { tags, note, email, phone, firstName, lastName } = row;
+  if (type === "order") {
+    if (phone || firstName || lastName) throw new Error("phone, firstName and lastName apply to customers only");
+    if (tags !== undefined || note !== undefined || email !== undefined) {
+      results.update = await client.updateOrder(id, { tags, note, email });
+    }
+  } else if ([tags, note, email, phone, firstName, lastName].some((v) => v !== undefined)) {
+    results.update = await client.updateCustomer(id, {
+      tags: tags !== undefined ? parseTagList(tags) : undefined,
+      note,
+      email,
+      phone,
+      firstName,
+      lastName,
+    });
+  }
+
+  const steps = Object.values(results);
+  if (steps.length === 0) throw new Error("Row has no fields to update");
+  return steps.length === 1 ? steps[0] : results;
+}
+
+/**
+ * The entity a row writes to, as a GID.
+ *
+ * @throws {Error} If the row has no id or its type can't be determined
+ */
+function rowEntity(row: BulkRow, defaultType?: "order" | "customer"): { type: "order" | "customer"; id: string } {
+  if (!row?.id) throw new Error("Row has no id");
+
+  // JSONL rows may carry numeric IDs
+  const rawId = String(row.id);
+  const type = rowType(row, rawId) ?? defaultType;
+  if (!type) throw new Error(`Cannot tell whether ${rawId} is an order or customer; add a type column or pass --type`);
+  const id = rawId.startsWith("gid://") ? rawId : `gid://shopify/${type === "order" ? "Order" : "Customer"}/${rawId}`;
+  return { type, id };
+}
+
+/**
+ * The GID a row writes to, or undefined when the row is invalid (it then fails on its own).
+ */
+function entityKey(row: BulkRow, defaultType?: "order" | "customer"): string | undefined {
+  try {
+    return rowEntity(row, defaultType).id;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * The row's type column (any case), checked against the type its GID names.
+ *
+ * @throws {Error} If the type isn't order or customer, or contradicts the GID
+ */
+function rowType(row: BulkRow, id: string): "order" | "customer" | undefined {
+  const inferred = inferType(id);
+  const raw = row.type as unknown;
+  if (raw === undefined || raw === null || String(raw).trim() === "") return inferred;
+
+  const type = String(raw).trim().toLowerCase();
+  if (type !== "order" && type !== "customer") {
+    throw new Error(`Unknown type "${String(raw)}" (expected order or customer)`);
+  }
+  if (inferred && inferred !== type) throw new Error(`Row type "${type}" doesn't match ${id}`);
+  return type;
+}
+
+function inferType(id: string): "order" | "customer" | undefined {
+  if (id.startsWith("gid://shopify/Order/")) return "order";
+  if (id.startsWith("gid://shopify/Customer/")) return "customer";
+  return undefined;
+}
+
+/**
+ * The checkpoint to resume from, or null to start over.
+ *
+ * @throws {Error} If the checkpoint was made for different file contents
+ */
+function loadCheckpoint(path: string, options: BulkUpdateOptions, inputHash: string): Checkpoint | null {
+  if (options.restart || !existsSync(path)) return null;
+  const checkpoint = JSON.parse(readFileSync(path, "utf-8")) as Checkpoint;
+  if (checkpoint.inputHash !== inputHash) {
+    throw new Error(
+      `Checkpoint ${path} was made for different contents of ${checkpoint.input}; pass --restart to discard it`
+    );
+  }
+  return checkpoint;
+}
+
+function saveCheckpoint(path: string, checkpoint: Checkpoint): void {
+  writeFileSync(path, JSON.stringify(checkpoint));
+}
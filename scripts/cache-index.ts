@@ -0,0 +1,184 @@
+/**
+ * Cache Entity Index
+ *
+ * Records which Shopify entities each cached response contains, so a
+ * mutation invalidates exactly the entries that reference what it changed,
+ * including cross-type links (an order inside a customer's order history,
+ * a customer embedded in an order). Persisted beside the cache because
+ * cached entries outlive a single CLI run.
+ *
+ * Each entry is its own file, so the daemon, direct CLI calls and batch
+ * runs can share the index without overwriting each other's entries.
+ */
+
+import { createHash } from "crypto";
+import { existsSync, mkdirSync, readFileSync, readdirSync, renameSync, rmSync, unlinkSync, writeFileSync } from "fs";
+import { join } from "path";
+import { DATA_DIR } from "./config.js";
+import { orderNumberOf } from "./mcp-client.js";
+
+export const DEFAULT_CACHE_INDEX_DIR = join(DATA_DIR, "cache-index");
+
+export type EntityType = "order" | "customer" | "product";
+
+const GID_TYPES: Record<EntityType, string> = {
+  order: "Order",
+  customer: "Customer",
+  product: "Product",
+};
+
+/**
+ * Marks a cached list response. Filtered lists (search, status, sort by
+ * update time) can gain or lose members when any entity of the type changes.
+ */
+export interface ListScope {
+  type: EntityType;
+  filtered: boolean;
+}
+
+interface IndexEntry {
+  key: string;
+  refs: string[];
+  list?: ListScope;
+  expiresAt: number;
+}
+
+export class CacheIndex {
+  /** False when no index was found, so existing cache entries are untracked */
+  readonly loaded: boolean;
+
+  /**
+   * @param dir - Directory holding one file per cache entry
+   */
+  constructor(private readonly dir: string) {
+    this.loaded = existsSync(dir);
+  }
+
+  /**
+   * Records the entities referenced by a cached response. Call it when the
+   * response is fetched, not on cache hits: the entry outlives the process.
+   *
+   * @param key - Cache key
+   * @param value - Cached response
+   * @param options.ttl - Entry lifetime in ms, so the index can drop it once the cache has
+   * @param options.refs - Extra references not present in the response (e.g. a query's customer ID)
+   * @param options.list - Set when the response is a list query
+   */
+  record(key: string, value: unknown, options: { ttl: number; refs?: string[]; list?: ListScope }): void {
+    const refs = entityRefs(value);
+    for (const ref of options.refs ?? []) refs.add(ref);
+    const entry: IndexEntry = { key, refs: [...refs], list: options.list, expiresAt: Date.now() + options.ttl };
+
+    // Write then rename, so other processes never read a partial entry
+    const path = this.entryPath(key);
+    const temp = `${path}.${process.pid}.tmp`;
+    mkdirSync(this.dir, { recursive: true });
+    writeFileSync(temp, JSON.stringify(entry));
+    renameSync(temp, path);
+  }
+
+  /**
+   * Finds cache keys affected by a change to the given entities.
+   *
+   * Reads the entries from disk on every call, so it sees keys recorded by
+   * other processes since this one started.
+   *
+   * @param refs - Entity references (see entityRefs)
+   * @param lists - List queries of this type to include as well
+   * @param lists.filteredOnly - Only lists whose membership depends on entity fields
+   */
+  match(refs: Iterable<string>, lists?: { type: EntityType; filteredOnly: boolean }): string[] {
+    const wanted = new Set(refs);
+    return this.entries()
+      .filter((entry) =>
+        entry.refs.some((ref) => wanted.has(ref)) ||
+        (lists !== undefined &&
+          entry.list?.type === lists.type &&
+          (entry.list.filtered || !lists.filteredOnly))
+      )
+      .map((entry) => entry.key);
+  }
+
+  /**
+   * Drops keys that were invalidated in the cache.
+   */
+  forget(keys: string[]): void {
+    for (const key of keys) removeFile(this.entryPath(key));
+  }
+
+  clear(): void {
+    rmSync(this.dir, { recursive: true, force: true });
+    mkdirSync(this.dir, { recursive: true });
+  }
+
+  /**
+   * Live entries; expired ones are deleted along the way.
+   */
+  private entries(): IndexEntry[] {
+    if (!existsSync(this.dir)) return [];
+
+    const now = Date.now();
+    const entries: IndexEntry[] = [];
+    for (const name of readdirSync(this.dir)) {
+      if (!name.endsWith(".json")) continue;
+      const path = join(this.dir, name);
+      try {
+        const entry = JSON.parse(readFileSync(path, "utf-8")) as IndexEntry;
+        if (entry.expiresAt > now) entries.push(entry);
+        else removeFile(path);
+      } catch {
+        // Removed by another process since the directory was listed
+      }
+    }
+    return entries;
+  }
+
+  private entryPath(key: string): string {
+    return join(this.dir, `${createHash("sha256").update(key).digest("hex").slice(0, 32)}.json`);
+  }
+}
+
+function removeFile(path: string): void {
+  try {
+    unlinkSync(path);
+  } catch {
+    // Already gone
+  }
+}
+
+/**
+ * Collects entity references from a response: every Shopify GID it contains,
+ * plus an order-number reference for each order (mutations such as
+ * create-fulfillment only know the order number).
+ */
+export function entityRefs(value: unknown, refs: Set<string> = new Set()): Set<string> {
+  if (typeof value === "string") {
+    if (value.startsWith("gid://shopify/")) refs.add(value);
+  } else if (Array.isArray(value)) {
+    for (const item of value) entityRefs(item, refs);
+  } else if (value && typeof value === "object") {
+    const { id, name } = value as Record<string, unknown>;
+    if (typeof id === "string" && id.startsWith("gid://shopify/Order/") && typeof name === "string") {
+      const number = orderNumberOf(name);
+      if (number) refs.add(orderNumberRef(number));
+    }
+    for (const item of Object.values(value)) entityRefs(item, refs);
+  }
+  return refs;
+}
+
+/**
+ * Reference for an entity ID given as a GID or bare number.
+ */
+export function entityRef(type: EntityType, id: string): string {
+  if (id.startsWith("gid://")) return id;
+  const numericId = id.match(/(\d+)$/)?.[1] ?? id;
+  return `gid://shopify/${GID_TYPES[type]}/${numericId}`;
+}
+
+/**
+ * Reference for an order by its number ("1234" for "#ORD1234").
+ */
+export function orderNumberRef(number: string): string {
+  return `order-number:${number}`;
+}
@@ -0,0 +1,193 @@
+/**
+ * Carrier Registry
+ *
+ * Known shipping carriers with name aliases, tracking-number formats and
+ * tracking URL templates. Used to normalize trackingCompany, reject
+ * malformed tracking numbers and fill in trackingUrl.
+ */
+
+import type { CarrierDefinition } from "./config.js";
+
+interface Carrier {
+  key: string;
+  /** Name sent to Shopify as trackingCompany */
+  name: string;
+  aliases: string[];
+  /** Matched against the normalized (uppercase, no spaces) tracking number */
+  pattern?: RegExp;
+  /** URL with a {number} placeholder */
+  trackingUrl: string;
+}
+
+const BUILT_IN_CARRIERS: Carrier[] = [
+  {
+    key: "ups",
+    name: "UPS",
+    aliases: ["united parcel service"],
+    pattern: /^1Z[0-9A-Z]{16}$/,
+    trackingUrl: "https://www.ups.com/track?tracknum={number}",
+  },
+  {
+    key: "royal-mail",
+    name: "Royal Mail",
+    aliases: ["royalmail", "rm", "royal mail tracked"],
+    // UPU S10 numbers, except the parcel (C) and EMS (E) ranges, which
+    // Parcelforce Worldwide carries
+    pattern: /^(?![CE])[A-Z]{2}\d{9}GB$/,
+    trackingUrl: "https://www.royalmail.com/track-your-item#/tracking-results/{number}",
+  },
+  {
+    key: "dhl",
+    name: "DHL Express",
+    aliases: ["dhl", "dhl express"],
+    pattern: /^(\d{10,11}|JJD\d{18}|JVGL\d{8,20}|GM\d{16,20})$/,
+    trackingUrl: "https://www.dhl.com/global-en/home/tracking/tracking-express.html?submit=1&tracking-id={number}",
+  },
+  {
+    key: "dhl-parcel",
+    name: "DHL Parcel",
+    aliases: ["dhl paket", "dhl ecommerce"],
+    // Number formats differ by country, so numbers aren't checked or detected
+    trackingUrl: "https://www.dhl.com/global-en/home/tracking/tracking-parcel.html?submit=1&tracking-id={number}",
+  },
+  {
+    key: "fedex",
+    name: "FedEx",
+    aliases: ["federal express", "fed ex"],
+    pattern: /^(\d{12}|\d{15}|\d{20}|\d{22})$/,
+    trackingUrl: "https://www.fedex.com/fedextrack/?trknbr={number}",
+  },
+  {
+    key: "usps",
+    name: "USPS",
+    aliases: ["us postal service", "united states postal service"],
+    pattern: /^(9[1-5]\d{20}|9[1-5]\d{24}|[A-Z]{2}\d{9}US|82\d{8})$/,
+    trackingUrl: "https://tools.usps.com/go/TrackConfirmAction?tLabels={number}",
+  },
+  {
+    key: "dpd",
+    name: "DPD UK",
+    aliases: ["dpd", "dpd uk", "dpd local"],
+    pattern: /^(\d{10}|\d{14})$/,
+    trackingUrl: "https://track.dpd.co.uk/parcels/{number}",
+  },
+  {
+    key: "evri",
+    name: "Evri",
+    aliases: ["hermes", "myhermes"],
+    pattern: /^(H[0-9A-Z]{15}|T\d{15}|\d{16})$/,
+    trackingUrl: "https://www.evri.com/track/parcel/{number}",
+  },
+  {
+    key: "parcelforce",
+    name: "Parcelforce",
+    aliases: ["parcelforce worldwide", "parcel force"],
+    pattern: /^([A-Z]{2}\d{7}|[CE][A-Z]\d{9}GB)$/,
+    trackingUrl: "https://www.parcelforce.com/track-trace?trackNumber={number}",
+  },
+];
+
+export interface ResolvedTracking {
+  trackingNumber: string;
+  trackingCompany?: string;
+  trackingUrl?: string;
+}
+
+export class CarrierRegistry {
+  private carriers: Carrier[];
+
+  /**
+   * @param overrides - Carriers from config.json, keyed by carrier key.
+   *   Entries with a built-in key replace that carrier.
+   */
+  constructor(overrides: Record<string, CarrierDefinition> = {}) {
+    const custom = Object.entries(overrides).map(([key, def]) => ({
+      key,
+      name: def.name,
+      aliases: def.aliases ?? [],
+      pattern: def.pattern ? new RegExp(def.pattern, "i") : undefined,
+      trackingUrl: def.trackingUrl,
+    }));
+    this.carriers = [
+      ...custom,
+      ...BUILT_IN_CARRIERS.filter((c) => !custom.some((o) => o.key === c.key)),
+    ];
+  }
+
+  /**
+   * Looks up a carrier by key, name or alias (case-insensitive).
+   */
+  find(nameOrAlias: string): Carrier | undefined {
+    const wanted = normalizeName(nameOrAlias);
+    return this.carriers.find(
+      (c) => [c.key, c.name, ...c.aliases].some((n) => normalizeName(n) === wanted)
+    );
+  }
+
+  /**
+   * Lists carriers whose tracking-number format matches, config.json
+   * carriers first, then built-ins in registry order.
+   */
+  detect(trackingNumber: string): Array<{ key: string; name: string; trackingUrl: string }> {
+    const number = normalizeTrackingNumber(trackingNumber);
+    return this.carriers
+      .filter((c) => c.pattern?.test(number))
+      .map((c) => ({ key: c.key, name: c.name, trackingUrl: buildUrl(c, number) }));
+  }
+
+  /**
+   * Normalizes tracking details for a fulfillment mutation.
+   *
+   * A known carrier is renamed to its canonical name, the number is checked
+   * against its format, and trackingUrl is filled in if omitted. Unknown
+   * carriers pass through unchanged. Without a carrier, one is inferred only
+   * when exactly one format matches.
+   *
+   * @throws {Error} If the number doesn't match the named carrier's format
+   */
+  resolve(trackingNumber: string, trackingCompany?: string, trackingUrl?: string): ResolvedTracking {
+    const number = normalizeTrackingNumber(trackingNumber);
+
+    if (!trackingCompany) {
+      const candidates = this.detect(number);
+      if (candidates.length !== 1) return { trackingNumber: number, trackingUrl };
+      return {
+        trackingNumber: number,
+        trackingCompany: candidates[0].name,
+        trackingUrl: trackingUrl ?? candidates[0].trackingUrl,
+      };
+    }
+
+    const carrier = this.find(trackingCompany);
+    if (!carrier) return { trackingNumber: number, trackingCompany, trackingUrl };
+
+    if (carrier.pattern && !carrier.pattern.test(number)) {
+      const detected = this.detect(number).map((c) => c.name);
+      throw new Error(
+        `Tracking number ${number} doesn't match the ${carrier.name} format` +
+          (detected.length ? ` (looks like ${detected.join(" or ")})` : "")
+      );
+    }
+
+    return {
+      trackingNumber: number,
+      trackingCompany: carrier.name,
+      trackingUrl: trackingUrl ?? buildUrl(carrier, number),
+    };
+  }
+}
+
+/**
+ * Uppercases and strips spaces/dashes from a tracking number.
+ */
+export function normalizeTrackingNumber(trackingNumber: string): string {
+  return trackingNumber.replace(/[\s-]/g, "").toUpperCase();
+}
+
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+function buildUrl(carrier: Carrier, number: string): string {
+  return carrier.trackingUrl.replace("{number}", encodeURIComponent(number));
+}
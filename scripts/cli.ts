@@ -5,8 +5,138 @@
  * Zod-validated CLI for Shopify store management via MCP.
  */
 
+import { createReadStream } from "fs";
 import { z, createCommand, runCli, cacheCommands, cliTypes } from "@local/cli-utils";
-import { ShopifyMCPClient } from "./mcp-client.js";
+import { ShopifyMCPClient, type TagOperation, type TagTarget } from "./mcp-client.js";
+import { parseTagList } from "./tags.js";
+import { runBulkUpdate } from "./bulk.js";
+import { collect } from "./pagination.js";
+import { importFulfillments } from "./fulfillment-import.js";
+import {
+  DEFAULT_COLUMNS,
+  buildOrderQuery,
+  exportRows,
+  parseColumns,
+  type ExportFormat,
+} from "./export.js";
+import { extractGlobalOptions, extractOutputOptions } from "./global-options.js";
+import { withOutputOptions } from "./output.js";
+import { runDoctor } from "./doctor.js";
+import {
+  DEFAULT_SEGMENT_TAG_PREFIX,
+  RFM_SEGMENTS,
+  applySegmentTags,
+  buildCustomerInsights,
+  type RfmSegment,
+} from "./customer-insights.js";
+import { findDuplicateCustomers } from "./duplicate-customers.js";
+import { buildOrderTimeline } from "./order-timeline.js";
+import { SALES_GROUPINGS, buildSalesReport, type SalesGrouping } from "./sales-report.js";
+import { runBatch, type BatchCommand, type BatchSummary } from "./batch.js";
+import {
+  DEFAULT_IDLE_TIMEOUT_SEC,
+  connectDaemon,
+  daemonClient,
+  getDaemonStatus,
+  runDaemon,
+  startDaemon,
+  stopDaemon,
+} from "./daemon.js";
+
+/**
+ * Prints a usage error the way runCli does, then exits.
+ */
+function exitWithError(message: string): never {
+  console.error(`Error: ${message}`);
+  process.exit(1);
+}
+
+/**
+ * Runs one of the argv extractors, reporting a bad flag instead of throwing.
+ */
+function parseArgv<T>(extract: () => T): T {
+  try {
+    return extract();
+  } catch (error) {
+    exitWithError((error as Error).message);
+  }
+}
+
+// Global flags (e.g. --store) apply to every command
+const globalOptions = parseArgv(() => extractGlobalOptions(process.argv));
+
+// batch runs other commands itself; daemon manages the process batch may be talking to
+const NOT_IN_BATCH = ["batch", "daemon"];
+
+// A running daemon serves calls unless a flag needs a client configured differently
+const useDaemon =
+  !["daemon", "doctor"].includes(process.argv[2]) &&
+  !globalOptions.dryRun && !globalOptions.record && !globalOptions.replay && !globalOptions.retry;
+const daemon = useDaemon ? await connectDaemon(globalOptions.store) : null;
+
+// stderr, so warnings never corrupt the JSON on stdout
+const printArgumentWarning = ({ tool, message }: { tool: string; message: string }) =>
+  console.error(`Warning: ${tool}: ${message}`);
+const printJournalWarning = ({ path, lines }: { path: string; lines: number[] }) =>
+  console.error(`Warning: skipped ${lines.length} malformed audit journal line(s) in ${path}: ${lines.join(", ")}`);
+daemon?.on("argument-warning", printArgumentWarning);
+daemon?.on("journal-warning", printJournalWarning);
+
+class CliClient extends ShopifyMCPClient {
+  constructor() {
+    super(globalOptions);
+    this.on("argument-warning", printArgumentWarning);
+    this.on("journal-warning", printJournalWarning);
+    // Server and cache calls go to the daemon's warm connection instead
+    if (daemon) return daemonClient(this, daemon);
+  }
+}
+
+/**
+ * Builds the tag-add / tag-remove / tag-set commands, which share a schema.
+ */
+function tagCommands() {
+  const schema = z.object({
+    type: z.enum(["order", "customer", "product"]).describe("Entity type"),
+    id: z.string().min(1).describe("Entity ID (GraphQL GID format)"),
+    tags: z.string().min(1).describe("Tags (comma-separated)"),
+  });
+  const descriptions: Record<TagOperation, string> = {
+    add: "Add tags, keeping existing ones",
+    remove: "Remove tags, keeping the rest",
+    set: "Replace all tags",
+  };
+
+  return Object.fromEntries(
+    (Object.keys(descriptions) as TagOperation[]).map((operation) => [
+      `tag-${operation}`,
+      createCommand(
+        schema,
+        async (args, client: ShopifyMCPClient) => {
+          const { type, id, tags } = args as { type: TagTarget; id: string; tags: string };
+          return client.modifyTags(type, id, operation, parseTagList(tags));
+        },
+        `${descriptions[operation]} on an order, customer or product`
+      ),
+    ])
+  );
+}
+
+/**
+ * Options shared by the get-all-* commands. --after/--offset come from a
+ * previous run's `checkpoint` to continue where it stopped.
+ */
+const paginationOptions = {
+  max: cliTypes.int(1, 1_000_000).optional().describe("Stop after this many records (default: all)"),
+  after: z.string().optional().describe("Resume: checkpoint.after from a previous run"),
+  offset: cliTypes.int(0, 250).optional().describe("Resume: checkpoint.offset from a previous run"),
+};
+
+function resumeFrom(after?: string, offset?: number) {
+  return after !== undefined || offset !== undefined ? { after, offset: offset ?? 0 } : undefined;
+}
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a date as YYYY-MM-DD");
 
 // Define commands with Zod schemas
 const commands = {
@@ -22,6 +152,51 @@ const commands = {
     "List all available MCP tools"
   ),
 
+  "list-stores": createCommand(
+    z.object({}),
+    async (_args, client: ShopifyMCPClient) => client.listStores(),
+    "List configured store profiles"
+  ),
+
+  "list-commands": createCommand(
+    z.object({}),
+    async (_args, client: ShopifyMCPClient): Promise<Array<Record<string, unknown>>> => {
+      const missing = await client.getMissingTools();
+      const described = commands as Record<string, { description: string }>;
+      return Object.entries(described).map(([name, command]) => {
+        const unsupportedTools = missing.filter((m) => m.commands.includes(name)).map((m) => m.tool);
+        // Entries such as "tag-add --type product" only rule out some uses of a command
+        const limitations = missing
+          .flatMap((m) => m.commands.filter((c) => c.startsWith(`${name} `)).map((c) => `${c} needs ${m.tool}`));
+        return {
+          command: name,
+          description: command.description,
+          available: unsupportedTools.length === 0,
+          ...(unsupportedTools.length ? { unsupportedTools } : {}),
+          ...(limitations.length ? { limitations } : {}),
+        };
+      });
+    },
+    "List commands, marking those the connected MCP server can't run"
+  ),
+
+  // Dispatched before runCli (below) so it works when config.json is broken; listed here for help
+  doctor: createCommand(
+    z.object({}),
+    async () => runDoctor({ store: globalOptions.store }),
+    "Check config.json, the MCP server and the tools it provides"
+  ),
+
+  // Dispatched before runCli (below), since `daemon run` keeps the process alive; listed here for help
+  daemon: createCommand(
+    z.object({
+      action: z.enum(["start", "stop", "status"]).describe("daemon start|stop|status"),
+      idleTimeout: cliTypes.int(0, 86400).optional().describe(`Seconds idle before the daemon exits (default: ${DEFAULT_IDLE_TIMEOUT_SEC}, 0 = never)`),
+    }),
+    async () => getDaemonStatus(globalOptions.store),
+    "Run a background process that keeps the MCP connection warm between commands"
+  ),
+
   // Product commands
   "get-products": createCommand(
     z.object({
@@ -35,6 +210,27 @@ const commands = {
     "List products with optional search"
   ),
 
+  "get-all-products": createCommand(
+    z.object({
+      search: z.string().optional().describe("Search products by title"),
+      ...paginationOptions,
+    }),
+    async (args, client: ShopifyMCPClient) => {
+      const { search, max, after, offset } = args as {
+        search?: string;
+        max?: number;
+        after?: string;
+        offset?: number;
+      };
+      const { items, hasMore, checkpoint } = await collect(
+        (o) => client.iterateProducts({ ...o, searchTitle: search }),
+        { max, resume: resumeFrom(after, offset) }
+      );
+      return { products: items, totalFetched: items.length, hasMore, checkpoint };
+    },
+    "Get all products with automatic pagination"
+  ),
+
   "get-product": createCommand(
     z.object({
       id: z.string().min(1).describe("Product ID (GraphQL GID format)"),
@@ -89,6 +285,27 @@ const commands = {
     "List customers with optional search"
   ),
 
+  "get-all-customers": createCommand(
+    z.object({
+      search: z.string().optional().describe("Search customers by name/email"),
+      ...paginationOptions,
+    }),
+    async (args, client: ShopifyMCPClient) => {
+      const { search, max, after, offset } = args as {
+        search?: string;
+        max?: number;
+        after?: string;
+        offset?: number;
+      };
+      const { items, hasMore, checkpoint } = await collect(
+        (o) => client.iterateCustomers({ ...o, searchQuery: search }),
+        { max, resume: resumeFrom(after, offset) }
+      );
+      return { customers: items, totalFetched: items.length, hasMore, checkpoint };
+    },
+    "Get all customers with automatic pagination"
+  ),
+
   "update-customer": createCommand(
     z.object({
       id: z.string().min(1).describe("Customer ID (GraphQL GID format)"),
@@ -166,21 +383,35 @@ const commands = {
       sortKey: z.string().optional().describe("Sort key (e.g., CREATED_AT)"),
       reverse: cliTypes.bool().optional().describe("Reverse sort order"),
       query: z.string().optional().describe("Query filter (e.g., created_at:>2025-06-01)"),
-      maxPages: cliTypes.int(1, 50).default(10).describe("Max pages to fetch"),
+      ...paginationOptions,
     }),
     async (args, client: ShopifyMCPClient) => {
-      const { status, sortKey, reverse, query, maxPages } = args as {
+      const { status, sortKey, reverse, query, max, after, offset } = args as {
         status?: string;
         sortKey?: string;
         reverse?: boolean;
         query?: string;
-        maxPages: number;
+        max?: number;
+        after?: string;
+        offset?: number;
       };
-      return client.getAllOrders({ status, sortKey, reverse, query, maxPages });
+      return client.getAllOrders({ status, sortKey, reverse, query, max, resume: resumeFrom(after, offset) });
     },
     "Get all orders with automatic pagination"
   ),
 
+  "find-order": createCommand(
+    z.object({
+      ref: z.string().min(1).describe("Order number, name (#ORD1234), email, ID, GID or admin URL"),
+      scanLimit: cliTypes.int(1, 10000).default(1000).describe("Recent orders to scan if search finds nothing"),
+    }),
+    async (args, client: ShopifyMCPClient) => {
+      const { ref, scanLimit } = args as { ref: string; scanLimit: number };
+      return client.findOrder(ref, { scanLimit });
+    },
+    "Find orders by number, name, email, ID or admin URL"
+  ),
+
   "get-order": createCommand(
     z.object({
       id: z.string().min(1).describe("Order ID (GraphQL GID format)"),
@@ -192,6 +423,24 @@ const commands = {
     "Get an order by ID"
   ),
 
+  "order-timeline": createCommand(
+    z.object({
+      id: z.string().min(1).optional().describe("Order ID (GraphQL GID format)"),
+      number: z.string().min(1).optional().describe("Order number or name (e.g., 1001 or #1001)"),
+    }),
+    async (args, client: ShopifyMCPClient) => {
+      const { id, number } = args as { id?: string; number?: string };
+      if (!id === !number) throw new Error("Pass either --id or --number");
+      if (id) return buildOrderTimeline(client, await client.getOrderById(id));
+
+      const { orders } = await client.findOrder(number!);
+      if (orders.length === 0) throw new Error(`Order not found: ${number}`);
+      if (orders.length > 1) throw new Error(`${number} matches ${orders.length} orders; pass --id`);
+      return buildOrderTimeline(client, orders[0]);
+    },
+    "Chronological history of an order: payments, fulfillments, tracking, returns, refunds and CLI changes"
+  ),
+
   "update-order": createCommand(
     z.object({
       id: z.string().min(1).describe("Order ID (GraphQL GID format)"),
@@ -216,7 +465,7 @@ const commands = {
       fulfillmentId: z.string().min(1).describe("Fulfillment GID (gid://shopify/Fulfillment/...)"),
       trackingNumber: z.string().min(1).describe("New tracking number"),
       trackingCompany: z.string().optional().describe("Carrier name (e.g., UPS, Royal Mail)"),
-      trackingUrl: z.string().optional().describe("Tracking URL"),
+      trackingUrl: z.string().optional().describe("Tracking URL (generated for known carriers)"),
       notifyCustomer: cliTypes.bool().optional().describe("Send email to customer"),
     }),
     async (args, client: ShopifyMCPClient) => {
@@ -240,8 +489,8 @@ const commands = {
     z.object({
       orderNumber: z.string().min(1).describe("Order number (e.g., 1234)"),
       trackingNumber: z.string().min(1).describe("Tracking number"),
-      trackingCompany: z.string().optional().describe("Carrier name (default: UPS)"),
-      trackingUrl: z.string().optional().describe("Tracking URL"),
+      trackingCompany: z.string().optional().describe("Carrier name (default: detected from number, else UPS)"),
+      trackingUrl: z.string().optional().describe("Tracking URL (generated for known carriers)"),
       notifyCustomer: cliTypes.bool().optional().describe("Send email to customer (default: false)"),
       lineItems: z.string().optional().describe("Items to fulfill as JSON: [{\"sku\":\"X\",\"quantity\":1}]"),
     }),
@@ -264,6 +513,17 @@ const commands = {
     "Create fulfillment with tracking for an order"
   ),
 
+  "detect-carrier": createCommand(
+    z.object({
+      trackingNumber: z.string().min(1).describe("Tracking number"),
+    }),
+    async (args, client: ShopifyMCPClient) => {
+      const { trackingNumber } = args as { trackingNumber: string };
+      return { trackingNumber, candidates: client.detectCarrier(trackingNumber) };
+    },
+    "Guess the carrier and tracking URL from a tracking number"
+  ),
+
   "create-return": createCommand(
     z.object({
       orderNumber: z.string().min(1).describe("Order number (e.g., 14901)"),
@@ -294,8 +554,8 @@ const commands = {
     z.object({
       returnId: z.string().min(1).describe("Return GID (gid://shopify/Return/...)"),
       trackingNumber: z.string().min(1).describe("Tracking number for the return shipment"),
-      trackingCompany: z.string().optional().describe("Carrier name (default: UPS)"),
-      trackingUrl: z.string().optional().describe("Tracking URL"),
+      trackingCompany: z.string().optional().describe("Carrier name (default: detected from number, else UPS)"),
+      trackingUrl: z.string().optional().describe("Tracking URL (generated for known carriers)"),
       labelUrl: z.string().optional().describe("URL of the return label image (PNG/PDF)"),
     }),
     async (args, client: ShopifyMCPClient) => {
@@ -315,12 +575,358 @@ const commands = {
     "Attach return shipping/tracking to a return"
   ),
 
+  // Tag commands
+  ...tagCommands(),
+
+  // Export commands
+  "export-orders": createCommand(
+    z.object({
+      out: z.string().min(1).describe("Output file (.csv, .ndjson or .xlsx)"),
+      format: z.enum(["csv", "ndjson", "xlsx"]).optional().describe("Output format (default: from --out extension)"),
+      columns: z.string().optional().describe("Comma-separated dot-paths; lineItems.* gives one row per line item"),
+      lineItems: cliTypes.bool().optional().describe("Use the default one-row-per-line-item columns"),
+      status: z.string().optional().describe("Order status filter"),
+      query: z.string().optional().describe("Query filter (e.g., tag:wholesale)"),
+      from: isoDate.optional().describe("Created on or after (YYYY-MM-DD, UTC)"),
+      to: isoDate.optional().describe("Created on or before (YYYY-MM-DD, UTC)"),
+    }),
+    async (args, client: ShopifyMCPClient) => {
+      const { out, format, columns, lineItems, status, query, from, to } = args as {
+        out: string;
+        format?: ExportFormat;
+        columns?: string;
+        lineItems?: boolean;
+        status?: string;
+        query?: string;
+        from?: string;
+        to?: string;
+      };
+      const orders = client.iterateOrders({ status, query: buildOrderQuery({ query, from, to }), reverse: false });
+      return exportRows(orders, {
+        out,
+        format,
+        columns: columns
+          ? parseColumns(columns)
+          : [...(lineItems ? DEFAULT_COLUMNS.orderLineItems : DEFAULT_COLUMNS.orders)],
+        sheetName: "Orders",
+      });
+    },
+    "Export orders to CSV, NDJSON or XLSX"
+  ),
+
+  "export-customers": createCommand(
+    z.object({
+      out: z.string().min(1).describe("Output file (.csv, .ndjson or .xlsx)"),
+      format: z.enum(["csv", "ndjson", "xlsx"]).optional().describe("Output format (default: from --out extension)"),
+      columns: z.string().optional().describe("Comma-separated dot-paths (e.g., email,defaultAddress.city)"),
+      search: z.string().optional().describe("Search customers by name/email"),
+      max: cliTypes.int(1, 1_000_000).optional().describe("Stop after this many customers (default: all)"),
+    }),
+    async (args, client: ShopifyMCPClient) => {
+      const { out, format, columns, search, max } = args as {
+        out: string;
+        format?: ExportFormat;
+        columns?: string;
+        search?: string;
+        max?: number;
+      };
+      return exportRows(client.iterateCustomers({ searchQuery: search, max }), {
+        out,
+        format,
+        columns: columns ? parseColumns(columns) : [...DEFAULT_COLUMNS.customers],
+        sheetName: "Customers",
+      });
+    },
+    "Export customers to CSV, NDJSON or XLSX"
+  ),
+
+  "export-products": createCommand(
+    z.object({
+      out: z.string().min(1).describe("Output file (.csv, .ndjson or .xlsx)"),
+      format: z.enum(["csv", "ndjson", "xlsx"]).optional().describe("Output format (default: from --out extension)"),
+      columns: z.string().optional().describe("Comma-separated dot-paths (e.g., title,vendor,tags)"),
+      search: z.string().optional().describe("Search products by title"),
+      max: cliTypes.int(1, 1_000_000).optional().describe("Stop after this many products (default: all)"),
+    }),
+    async (args, client: ShopifyMCPClient) => {
+      const { out, format, columns, search, max } = args as {
+        out: string;
+        format?: ExportFormat;
+        columns?: string;
+        search?: string;
+        max?: number;
+      };
+      return exportRows(client.iterateProducts({ searchTitle: search, max }), {
+        out,
+        format,
+        columns: columns ? parseColumns(columns) : [...DEFAULT_COLUMNS.products],
+        sheetName: "Products",
+      });
+    },
+    "Export products to CSV, NDJSON or XLSX"
+  ),
+
+  // Report commands
+  "sales-report": createCommand(
+    z.object({
+      from: isoDate.describe("First day, created on or after (YYYY-MM-DD, UTC)"),
+      to: isoDate.describe("Last day, created on or before (YYYY-MM-DD, UTC)"),
+      groupBy: z.enum(SALES_GROUPINGS).optional().describe("Group rows by day, week, month, product, vendor or channel"),
+      query: z.string().optional().describe("Extra order filter (e.g., tag:wholesale)"),
+      top: cliTypes.int(1, 100).default(10).describe("Top SKUs listed per currency (default: 10)"),
+    }),
+    async (args, client: ShopifyMCPClient) => {
+      const { from, to, groupBy, query, top } = args as {
+        from: string;
+        to: string;
+        groupBy?: SalesGrouping;
+        query?: string;
+        top: number;
+      };
+      if (from > to) throw new Error(`--from ${from} is after --to ${to}`);
+      return buildSalesReport(client, { from, to, groupBy, query, top });
+    },
+    "Sales totals, AOV and top SKUs for a date range, per currency (--format table shows the groups)"
+  ),
+
+  "customer-insights": createCommand(
+    z.object({
+      from: isoDate.optional().describe("Orders created on or after (YYYY-MM-DD, UTC; default: all history)"),
+      to: isoDate.optional().describe("Orders created on or before (YYYY-MM-DD, UTC; default: today)"),
+      query: z.string().optional().describe("Extra order filter (e.g., tag:wholesale)"),
+      segment: z.enum(RFM_SEGMENTS).optional().describe("Only customers in this RFM segment"),
+      top: cliTypes.int(1, 10_000).optional().describe("Only the N customers with the highest lifetime value"),
+      applyTags: cliTypes.bool().optional().describe("Tag the reported customers with their segment (honours --dry-run)"),
+      tagPrefix: z.string().min(1).default(DEFAULT_SEGMENT_TAG_PREFIX).describe("Segment tag prefix (default: rfm:)"),
+    }),
+    async (args, client: ShopifyMCPClient) => {
+      const { from, to, query, segment, top, applyTags, tagPrefix } = args as {
+        from?: string;
+        to?: string;
+        query?: string;
+        segment?: RfmSegment;
+        top?: number;
+        applyTags?: boolean;
+        tagPrefix: string;
+      };
+      if (from && to && from > to) throw new Error(`--from ${from} is after --to ${to}`);
+      const insights = await buildCustomerInsights(client, { from, to, query, segment, top });
+      if (!applyTags) return insights;
+      const tagging = await applySegmentTags(client, insights, tagPrefix);
+      return { ...insights, tagging: { ...tagging, dryRun: client.isDryRunEnabled() } };
+    },
+    "Per-customer lifetime value, order dates and RFM segment; --applyTags writes segment tags"
+  ),
+
+  "find-duplicate-customers": createCommand(
+    z.object({
+      search: z.string().optional().describe("Only scan customers matching this search"),
+      max: cliTypes.int(1, 1_000_000).optional().describe("Stop after scanning this many customers (default: all)"),
+      minConfidence: z.coerce.number().min(0).max(1).default(0.5).describe("Smallest match confidence reported, 0-1 (default: 0.5)"),
+      defaultCountry: z.string().length(2).optional().describe("ISO country for phone numbers with no country code or address country (e.g., GB)"),
+    }),
+    async (args, client: ShopifyMCPClient) => {
+      const { search, max, minConfidence, defaultCountry } = args as {
+        search?: string;
+        max?: number;
+        minConfidence: number;
+        defaultCountry?: string;
+      };
+      return findDuplicateCustomers(client, { searchQuery: search, max, minConfidence, defaultCountry });
+    },
+    "Group customer records that look like the same person, with match reasons and order counts"
+  ),
+
+  // Dispatched before runCli (below) so stdout carries only the NDJSON results; listed here for help
+  batch: createCommand(
+    z.object({
+      file: z.string().min(1).optional().describe('NDJSON file of {"cmd", "args", "id"} lines (default: stdin)'),
+      concurrency: cliTypes.int(1, 10).default(1).describe("Lines run in parallel (default: 1, in input order)"),
+    }),
+    async (args, client: ShopifyMCPClient): Promise<BatchSummary> => {
+      const { file, concurrency } = args as { file?: string; concurrency: number };
+      return runBatch(commands as Record<string, BatchCommand>, client, {
+        input: file ? createReadStream(file) : process.stdin,
+        output: process.stdout,
+        concurrency,
+        exclude: NOT_IN_BATCH,
+      });
+    },
+    "Run many commands from NDJSON lines over one connection, one result line each"
+  ),
+
+  // Bulk commands
+  "bulk-update": createCommand(
+    z.object({
+      file: z.string().min(1).describe("CSV or JSONL file of {id, tags, addTags, removeTags, note, email, ...} rows"),
+      type: z.enum(["order", "customer"]).optional().describe("Entity type for rows without a type column or GID"),
+      concurrency: cliTypes.int(1, 10).default(4).describe("Rows processed in parallel"),
+      out: z.string().optional().describe("Per-row result file (default: <file>.results.jsonl)"),
+      restart: cliTypes.bool().optional().describe("Discard the checkpoint and start from the first row"),
+    }),
+    async (args, client: ShopifyMCPClient) => {
+      const { file, type, concurrency, out, restart } = args as {
+        file: string;
+        type?: "order" | "customer";
+        concurrency: number;
+        out?: string;
+        restart?: boolean;
+      };
+      return runBulkUpdate(client, { input: file, type, concurrency, out, restart });
+    },
+    "Update many orders/customers from a CSV or JSONL file (resumable)"
+  ),
+
+  "import-fulfillments": createCommand(
+    z.object({
+      file: z.string().min(1).describe("Carrier manifest CSV"),
+      carrier: z.string().min(1).describe("Manifest mapping key (e.g., ups, royal-mail)"),
+      notifyCustomer: cliTypes.bool().optional().describe("Send shipping emails to customers (default: false)"),
+    }),
+    async (args, client: ShopifyMCPClient) => {
+      const { file, carrier, notifyCustomer } = args as {
+        file: string;
+        carrier: string;
+        notifyCustomer?: boolean;
+      };
+      return importFulfillments(client, { file, carrier, notifyCustomer });
+    },
+    "Create fulfillments from a carrier manifest CSV"
+  ),
+
+  // Audit journal commands
+  "audit-log": createCommand(
+    z.object({
+      id: z.string().optional().describe("Filter by entity ID (GID, numeric ID or order number)"),
+      command: z.string().optional().describe("Filter by command (e.g., update-order)"),
+      since: z.string().optional().describe("Entries on or after this date (YYYY-MM-DD or ISO)"),
+      until: z.string().optional().describe("Entries on or before this date (YYYY-MM-DD or ISO)"),
+      limit: cliTypes.limit(50, 1000),
+    }),
+    async (args, client: ShopifyMCPClient) => {
+      const { id, command, since, until, limit } = args as {
+        id?: string;
+        command?: string;
+        since?: string;
+        until?: string;
+        limit: number;
+      };
+      return client.getAuditLog({ entityId: id, command, since, until, limit });
+    },
+    "Show the local journal of mutations made by this CLI"
+  ),
+
+  "undo": createCommand(
+    z.object({
+      entry: z.string().min(1).describe("Audit entry ID (or unique prefix) from audit-log"),
+      force: cliTypes.bool().optional().describe("Undo even if the fields changed since the entry"),
+    }),
+    async (args, client: ShopifyMCPClient) => {
+      const { entry, force } = args as { entry: string; force?: boolean };
+      return client.undo(entry, { force });
+    },
+    "Revert tags/note/email/phone changes recorded in the audit log"
+  ),
+
   // Pre-built cache commands
   ...cacheCommands<ShopifyMCPClient>(),
 };
 
+/**
+ * Parses `--name value` and bare `--flag` arguments for commands dispatched
+ * before runCli, which then validate them with their schema above.
+ */
+function parseFlags(argv: string[]): Record<string, string | boolean> {
+  const flags: Record<string, string | boolean> = {};
+  for (let i = 0; i < argv.length; i++) {
+    if (!argv[i].startsWith("--")) continue;
+    const [name, inline] = argv[i].slice(2).split(/=(.*)/s, 2);
+    const next = argv[i + 1];
+    if (inline !== undefined) flags[name] = inline;
+    else if (next === undefined || next.startsWith("--")) flags[name] = true;
+    else flags[name] = argv[++i];
+  }
+  return flags;
+}
+
+/**
+ * Validates flags parsed by parseFlags against a command's schema, exiting on
+ * invalid input.
+ */
+function parseCommandFlags<S extends z.ZodTypeAny>(schema: S, flags: Record<string, unknown>): z.infer<S> {
+  const parsed = schema.safeParse(flags);
+  if (!parsed.success) {
+    exitWithError(parsed.error.issues.map((i: z.ZodIssue) => `--${i.path.join(".")}: ${i.message}`).join("; "));
+  }
+  return parsed.data;
+}
+
 // Run CLI
-runCli(commands, ShopifyMCPClient, {
+if (process.argv[2] === "doctor") {
+  // Constructing the client would throw on the config problems doctor reports
+  const report = await runDoctor({ store: globalOptions.store });
+  console.log(JSON.stringify(report, null, 2));
+  process.exit(report.ok ? 0 : 1);
+}
+
+if (process.argv[2] === "daemon") {
+  const [action = "status", ...rest] = process.argv.slice(3);
+  // `run` is the foreground mode `daemon start` spawns, so it takes start's options
+  const { idleTimeout: idleTimeoutSec } = parseCommandFlags(commands.daemon.schema, {
+    ...parseFlags(rest),
+    action: action === "run" ? "start" : action,
+  });
+
+  try {
+    switch (action) {
+      case "run":
+        // Foreground mode used by `daemon start`; logs go to stderr
+        await runDaemon({ store: globalOptions.store, idleTimeoutSec });
+        process.exit(0);
+      case "start":
+        console.log(JSON.stringify(await startDaemon({ store: globalOptions.store, idleTimeoutSec }), null, 2));
+        process.exit(0);
+      case "stop":
+        console.log(JSON.stringify(await stopDaemon(globalOptions.store), null, 2));
+        process.exit(0);
+      case "status":
+        console.log(JSON.stringify(await getDaemonStatus(globalOptions.store), null, 2));
+        process.exit(0);
+      default:
+        exitWithError(`Unknown daemon action "${action}"; use start, stop or status`);
+    }
+  } catch (error) {
+    exitWithError((error as Error).message);
+  }
+}
+
+if (process.argv[2] === "batch") {
+  const args = parseCommandFlags(commands.batch.schema, parseFlags(process.argv.slice(3)));
+
+  const client = new CliClient();
+  let exitCode = 1;
+  try {
+    const summary = (await commands.batch.handler(args, client)) as BatchSummary;
+    // The summary goes to stderr so stdout stays one JSON object per line
+    console.error(JSON.stringify(summary));
+    exitCode = summary.failed ? 1 : 0;
+  } catch (error) {
+    console.error(`Error: ${(error as Error).message}`);
+  } finally {
+    await client.disconnect();
+  }
+  // Let piped output drain before exiting
+  await new Promise((resolve) => process.stdout.write("", resolve));
+  process.exit(exitCode);
+}
+
+// --format and --fields apply to every command's result, unless the command has its own
+const commandSchema = (commands as Record<string, { schema?: z.ZodTypeAny }>)[process.argv[2]]?.schema;
+const outputOptions = parseArgv(() =>
+  extractOutputOptions(process.argv, commandSchema instanceof z.ZodObject ? Object.keys(commandSchema.shape) : [])
+);
+
+runCli(outputOptions.format || outputOptions.fields ? withOutputOptions(commands, outputOptions) : commands, CliClient, {
   programName: "shopify-cli",
   description: "Shopify store management via MCP",
 });
@@ -0,0 +1,208 @@
+/**
+ * Shopify Plugin Configuration
+ *
+ * Loads config.json and resolves named store profiles.
+ * Legacy single-store configs (top-level mcpServer/storeDomain) are
+ * treated as one profile named "default".
+ */
+
+import { existsSync, readFileSync } from "fs";
+import { fileURLToPath } from "url";
+import { dirname, join } from "path";
+import { z } from "@local/cli-utils";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+// When compiled, __dirname is dist/, so look in parent for config.json.
+// SHOPIFY_CONFIG points elsewhere (e.g. a test config).
+export const CONFIG_PATH = process.env.SHOPIFY_CONFIG || join(__dirname, "..", "config.json");
+
+// The journal, cache index and daemon files; SHOPIFY_DATA_DIR moves them (e.g. for tests)
+export const DATA_DIR = process.env.SHOPIFY_DATA_DIR || join(__dirname, "..", "data");
+
+export interface MCPServerConfig {
+  command: string;
+  args: string[];
+  env?: Record<string, string>;
+}
+
+export interface StoreProfile {
+  mcpServer: MCPServerConfig;
+  storeDomain: string;
+}
+
+/**
+ * Maps carrier manifest CSV columns to fulfillment fields.
+ */
+export interface ManifestMapping {
+  /** Carrier name sent as trackingCompany */
+  carrier: string;
+  orderNumber: string;
+  trackingNumber: string;
+  /** Omit to fulfill whole orders */
+  sku?: string;
+  /** Defaults to 1 per row when omitted */
+  quantity?: string;
+}
+
+/**
+ * A carrier added to (or replacing one in) the built-in carrier registry.
+ */
+export interface CarrierDefinition {
+  /** Name sent to Shopify as trackingCompany */
+  name: string;
+  aliases?: string[];
+  /** Regex source for valid tracking numbers (uppercase, no spaces) */
+  pattern?: string;
+  /** Tracking URL with a {number} placeholder */
+  trackingUrl: string;
+}
+
+export interface PluginConfig {
+  defaultStore?: string;
+  stores: Record<string, StoreProfile>;
+  /** Manifest column mappings by carrier key; merged over the built-in ones */
+  manifestMappings?: Record<string, ManifestMapping>;
+  /** Extra carriers by key; merged over the built-in registry */
+  carriers?: Record<string, CarrierDefinition>;
+}
+
+export interface ResolvedStore extends StoreProfile {
+  name: string;
+}
+
+// ============================================
+// VALIDATION
+// ============================================
+
+const MCPServerConfigSchema = z.object({
+  command: z.string().min(1, "command is required (e.g. \"npx\")"),
+  args: z.array(z.string()).default([]),
+  env: z.record(z.string()).optional(),
+});
+
+const StoreProfileSchema = z.object({
+  mcpServer: MCPServerConfigSchema,
+  storeDomain: z.string().min(1, "storeDomain is required (e.g. \"your-store.myshopify.com\")"),
+});
+
+const ManifestMappingSchema = z.object({
+  carrier: z.string().min(1),
+  orderNumber: z.string().min(1),
+  trackingNumber: z.string().min(1),
+  sku: z.string().optional(),
+  quantity: z.string().optional(),
+});
+
+const CarrierDefinitionSchema = z.object({
+  name: z.string().min(1),
+  aliases: z.array(z.string()).optional(),
+  pattern: z.string().refine(isValidRegex, "pattern is not a valid regular expression").optional(),
+  trackingUrl: z.string().includes("{number}", { message: "trackingUrl needs a {number} placeholder" }),
+});
+
+/**
+ * Shape of config.json after legacy normalization.
+ */
+export const PluginConfigSchema = z
+  .object({
+    defaultStore: z.string().optional(),
+    stores: z.record(StoreProfileSchema).refine((stores) => Object.keys(stores).length > 0, "at least one store is required"),
+    manifestMappings: z.record(ManifestMappingSchema).optional(),
+    carriers: z.record(CarrierDefinitionSchema).optional(),
+  })
+  .passthrough()
+  .refine((config) => !config.defaultStore || config.defaultStore in config.stores, {
+    message: "defaultStore does not name a profile under stores",
+    path: ["defaultStore"],
+  });
+
+/**
+ * config.json is missing, unreadable or doesn't match PluginConfigSchema.
+ */
+export class ConfigError extends Error {
+  constructor(
+    message: string,
+    public readonly path: string,
+    public readonly issues: string[] = []
+  ) {
+    super(issues.length ? `${message}:\n  - ${issues.join("\n  - ")}` : message);
+    this.name = "ConfigError";
+  }
+}
+
+/**
+ * Reads config.json, normalizes it to the multi-store layout and validates it.
+ *
+ * @param configPath - Path to config.json (defaults to the plugin root)
+ * @throws {ConfigError} If the file is missing, isn't JSON or has invalid fields
+ */
+export function loadConfig(configPath: string = CONFIG_PATH): PluginConfig {
+  if (!existsSync(configPath)) {
+    throw new ConfigError(`${configPath} not found; copy config.template.json to config.json and fill it in`, configPath);
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(configPath, "utf-8"));
+  } catch (error) {
+    throw new ConfigError(`${configPath} is not valid JSON: ${(error as Error).message}`, configPath);
+  }
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new ConfigError(`${configPath} must contain a JSON object`, configPath);
+  }
+
+  const { mcpServer, storeDomain, ...raw } = parsed as Record<string, any>;
+
+  // Legacy single-store layout
+  const normalized = raw.stores
+    ? raw
+    : { ...raw, defaultStore: "default", stores: { default: { mcpServer, storeDomain } } };
+
+  const result = PluginConfigSchema.safeParse(normalized);
+  if (!result.success) {
+    throw new ConfigError(
+      `${configPath} is invalid`,
+      configPath,
+      result.error.issues.map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+    );
+  }
+  return result.data as PluginConfig;
+}
+
+/**
+ * Picks a store profile by name.
+ *
+ * Resolution order: explicit name, SHOPIFY_STORE env var, defaultStore,
+ * then the only profile if exactly one is configured.
+ *
+ * @throws {Error} If the store is unknown or no default can be determined
+ */
+export function resolveStore(config: PluginConfig, name?: string): ResolvedStore {
+  const names = Object.keys(config.stores);
+  const selected =
+    name ?? process.env.SHOPIFY_STORE ?? config.defaultStore ?? (names.length === 1 ? names[0] : undefined);
+
+  if (!selected) {
+    throw new Error(
+      `No store selected. Pass --store <name> or set defaultStore in config.json (available: ${names.join(", ")})`
+    );
+  }
+
+  const profile = config.stores[selected];
+  if (!profile) {
+    throw new Error(`Unknown store "${selected}" (available: ${names.join(", ")})`);
+  }
+
+  return { name: selected, ...profile };
+}
+
+function isValidRegex(source: string): boolean {
+  try {
+    new RegExp(source);
+    return true;
+  } catch {
+    return false;
+  }
+}
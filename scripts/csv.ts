@@ -0,0 +1,110 @@
+/**
+ * CSV Helpers
+ *
+ * Minimal RFC 4180 reader/writer (quoted fields, embedded commas,
+ * quotes and newlines) for bulk input files and exports.
+ */
+
+/**
+ * Parses CSV text into rows of fields.
+ */
+export function parseCsv(text: string): string[][] {
+  return parseCsvLines(text).map(({ fields }) => fields);
+}
+
+/**
+ * Parses CSV text into rows of fields, each with the (1-based) line it
+ * starts on, so reports can point at the source even past blank lines and
+ * quoted multi-line fields.
+ */
+export function parseCsvLines(text: string): Array<{ line: number; fields: string[] }> {
+  const rows: Array<{ line: number; fields: string[] }> = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+
+  // Strip UTF-8 BOM written by Excel
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === "\n" || (char === "\r" && input[i + 1] !== "\n")) line++;
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push({ line: rowLine, fields: row });
+      row = [];
+      field = "";
+      rowLine = ++line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push({ line: rowLine, fields: row });
+  }
+
+  // Drop blank lines
+  return rows.filter(({ fields }) => fields.length > 1 || fields[0] !== "");
+}
+
+/**
+ * Parses CSV text with a header row into objects keyed by (trimmed) header.
+ * Empty cells are omitted.
+ */
+export function parseCsvRecords(text: string): Record<string, string>[] {
+  return parseCsvRecordLines(text).map(({ record }) => record);
+}
+
+/**
+ * Like parseCsvRecords, with the line each record starts on.
+ */
+export function parseCsvRecordLines(text: string): Array<{ line: number; record: Record<string, string> }> {
+  const [header, ...rows] = parseCsvLines(text);
+  if (!header) return [];
+  const keys = header.fields.map((h) => h.trim());
+
+  return rows.map(({ line, fields }) => {
+    const record: Record<string, string> = {};
+    keys.forEach((key, i) => {
+      const value = fields[i]?.trim();
+      if (key && value) record[key] = value;
+    });
+    return { line, record };
+  });
+}
+
+/**
+ * Formats one CSV line (with trailing newline), quoting fields as needed.
+ */
+export function formatCsvRow(values: unknown[]): string {
+  return values.map(formatCsvField).join(",") + "\r\n";
+}
+
+function formatCsvField(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  const text = typeof value === "object" ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
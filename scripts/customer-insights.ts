@@ -0,0 +1,260 @@
+/**
+ * Customer Insights
+ *
+ * Per-customer lifetime value, order count, first/last order dates and an
+ * RFM (recency, frequency, monetary) segment, computed from the orders in
+ * a date window. Each dimension is scored 1-5 by quintile against the
+ * other customers in the window; monetary scores only compare customers
+ * who spend in the same currency.
+ */
+
+import { buildOrderQuery, utcDayAfter } from "./export.js";
+import type { ShopifyMCPClient } from "./mcp-client.js";
+import { orderCurrency, orderMoney, roundMoney } from "./money.js";
+import type { Order } from "./schemas.js";
+
+/**
+ * Segments in the order their rules are checked; the first match wins.
+ */
+export const RFM_SEGMENTS = [
+  "champions",
+  "loyal",
+  "new",
+  "promising",
+  "at-risk",
+  "lost",
+  "hibernating",
+  "needs-attention",
+] as const;
+
+export type RfmSegment = (typeof RFM_SEGMENTS)[number];
+
+export const DEFAULT_SEGMENT_TAG_PREFIX = "rfm:";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface CustomerInsightsOptions {
+  /** First day of the window, YYYY-MM-DD in UTC (default: all history) */
+  from?: string;
+  /** Last day of the window, YYYY-MM-DD in UTC (default: today); recency is measured from its end */
+  to?: string;
+  /** Extra order query, e.g. "tag:wholesale" */
+  query?: string;
+  /** Only report customers in this segment */
+  segment?: RfmSegment;
+  /** Only report the N customers with the highest lifetime value */
+  top?: number;
+}
+
+export interface CustomerInsight {
+  /** Customer GID; null for guest checkouts, which are keyed by email */
+  customerId: string | null;
+  name: string | null;
+  email: string | null;
+  orders: number;
+  /** Order totals less refunds, in the currency the customer spent most in */
+  ltv: number;
+  currency: string;
+  /** Spend in any other currencies, never added to ltv */
+  otherSpend?: Record<string, number>;
+  /** ltv per order placed in that currency */
+  averageOrderValue: number;
+  firstOrderAt: string;
+  lastOrderAt: string;
+  daysSinceLastOrder: number;
+  /** Recency, frequency and monetary scores, e.g. "545" */
+  rfm: string;
+  segment: RfmSegment;
+  /** Set when --applyTags ran for this customer */
+  tagging?: { added: string[]; removed: string[] } | { error: string };
+}
+
+export interface CustomerInsights {
+  from: string | null;
+  to: string | null;
+  /** Recency reference point */
+  asOf: string;
+  ordersAnalyzed: number;
+  customersAnalyzed: number;
+  /** Customer count per segment, before --segment/--top */
+  segments: Record<RfmSegment, number>;
+  /** Highest lifetime value first */
+  customers: CustomerInsight[];
+}
+
+interface CustomerTotals {
+  customerId: string | null;
+  name: string | null;
+  email: string | null;
+  orders: number;
+  /** Currency -> amount spent and orders placed in it */
+  spend: Map<string, { amount: number; orders: number }>;
+  firstOrderAt: string;
+  lastOrderAt: string;
+}
+
+/**
+ * Builds per-customer insights from every non-cancelled order in the window.
+ *
+ * @param client - Client to page orders through
+ */
+export async function buildCustomerInsights(
+  client: ShopifyMCPClient,
+  options: CustomerInsightsOptions = {}
+): Promise<CustomerInsights> {
+  // The window's exclusive end, the same UTC instant the order query stops at
+  const asOf = options.to ? new Date(`${utcDayAfter(options.to)}T00:00:00Z`) : new Date();
+  const totals = new Map<string, CustomerTotals>();
+  let ordersAnalyzed = 0;
+
+  const query = buildOrderQuery({ query: options.query, from: options.from, to: options.to });
+  for await (const order of client.iterateOrders({ status: "any", query, sortKey: "CREATED_AT", reverse: false })) {
+    const key = order.customer?.id ?? order.email?.toLowerCase() ?? order.customer?.email?.toLowerCase();
+    if (order.cancelledAt || !key || !order.createdAt) continue;
+    ordersAnalyzed++;
+
+    const customer = totals.get(key) ?? newTotals(order);
+    customer.orders++;
+    const currency = orderCurrency(order);
+    const spend = customer.spend.get(currency) ?? { amount: 0, orders: 0 };
+    spend.amount += orderMoney(order, "total") - orderMoney(order, "refunds");
+    spend.orders++;
+    customer.spend.set(currency, spend);
+    if (order.createdAt < customer.firstOrderAt) customer.firstOrderAt = order.createdAt;
+    if (order.createdAt > customer.lastOrderAt) customer.lastOrderAt = order.createdAt;
+    totals.set(key, customer);
+  }
+
+  const insights = scoreCustomers([...totals.values()], asOf);
+  const segments = Object.fromEntries(RFM_SEGMENTS.map((s) => [s, 0])) as Record<RfmSegment, number>;
+  for (const insight of insights) segments[insight.segment]++;
+
+  const customers = insights
+    .filter((insight) => !options.segment || insight.segment === options.segment)
+    .sort((a, b) => b.ltv - a.ltv)
+    .slice(0, options.top ?? Infinity);
+
+  return {
+    from: options.from ?? null,
+    to: options.to ?? null,
+    asOf: asOf.toISOString(),
+    ordersAnalyzed,
+    customersAnalyzed: insights.length,
+    segments,
+    customers,
+  };
+}
+
+/**
+ * Tags each reported customer with `<prefix><segment>`, removing the tags
+ * of other segments so a customer is only ever in one. Honours dry-run
+ * mode. Guest checkouts have no customer record and are skipped.
+ *
+ * @param insights - Result of buildCustomerInsights; each customer's `tagging` is filled in
+ * @returns Count of customers whose tags changed, were already correct, were skipped or failed
+ */
+export async function applySegmentTags(
+  client: ShopifyMCPClient,
+  insights: CustomerInsights,
+  prefix = DEFAULT_SEGMENT_TAG_PREFIX
+): Promise<{ changed: number; unchanged: number; skipped: number; failed: number }> {
+  const counts = { changed: 0, unchanged: 0, skipped: 0, failed: 0 };
+  for (const customer of insights.customers) {
+    if (!customer.customerId) {
+      counts.skipped++;
+      continue;
+    }
+    try {
+      const stale = RFM_SEGMENTS.filter((s) => s !== customer.segment).map((s) => prefix + s);
+      // One read-modify-write, skipped when the customer is already tagged right
+      const change = await client.editTags("customer", customer.customerId, { remove: stale, add: [prefix + customer.segment] });
+      customer.tagging = { added: change.added, removed: change.removed };
+      counts[change.changed ? "changed" : "unchanged"]++;
+    } catch (error) {
+      customer.tagging = { error: error instanceof Error ? error.message : String(error) };
+      counts.failed++;
+    }
+  }
+  return counts;
+}
+
+function newTotals(order: Order): CustomerTotals {
+  const { customer } = order;
+  const name = [customer?.firstName, customer?.lastName].filter(Boolean).join(" ");
+  return {
+    customerId: customer?.id ?? null,
+    name: name || null,
+    email: customer?.email ?? order.email ?? null,
+    orders: 0,
+    spend: new Map(),
+    firstOrderAt: order.createdAt!,
+    lastOrderAt: order.createdAt!,
+  };
+}
+
+function scoreCustomers(customers: CustomerTotals[], asOf: Date): CustomerInsight[] {
+  const rows = customers.map((customer) => {
+    const [[currency, main], ...others] = [...customer.spend].sort(([, a], [, b]) => b.amount - a.amount);
+    const daysSinceLastOrder = Math.max(0, Math.floor((asOf.getTime() - Date.parse(customer.lastOrderAt)) / DAY_MS));
+    return { customer, currency, ltv: main.amount, mainOrders: main.orders, others, daysSinceLastOrder };
+  });
+
+  // Fewer days since the last order is better, so recency ranks the negated value
+  const recency = quintiles(rows.map((row) => -row.daysSinceLastOrder));
+  const frequency = quintiles(rows.map((row) => row.customer.orders));
+  const monetary = new Array<number>(rows.length);
+  for (const currency of new Set(rows.map((row) => row.currency))) {
+    const indexes = rows.flatMap((row, i) => (row.currency === currency ? [i] : []));
+    const scores = quintiles(indexes.map((i) => rows[i].ltv));
+    indexes.forEach((index, j) => (monetary[index] = scores[j]));
+  }
+
+  return rows.map(({ customer, currency, ltv, mainOrders, others, daysSinceLastOrder }, i) => ({
+    customerId: customer.customerId,
+    name: customer.name,
+    email: customer.email,
+    orders: customer.orders,
+    ltv: roundMoney(ltv),
+    currency,
+    ...(others.length ? { otherSpend: Object.fromEntries(others.map(([c, spend]) => [c, roundMoney(spend.amount)])) } : {}),
+    averageOrderValue: roundMoney(ltv / mainOrders),
+    firstOrderAt: customer.firstOrderAt,
+    lastOrderAt: customer.lastOrderAt,
+    daysSinceLastOrder,
+    rfm: `${recency[i]}${frequency[i]}${monetary[i]}`,
+    segment: segmentFor(recency[i], frequency[i], monetary[i], customer.orders),
+  }));
+}
+
+/**
+ * Scores each value 1-5 by its quintile; equal values get equal scores.
+ */
+function quintiles(values: number[]): number[] {
+  const sorted = [...values].sort((a, b) => a - b);
+  return values.map((value) => Math.floor((lowerBound(sorted, value) * 5) / values.length) + 1);
+}
+
+/**
+ * Index of the first element >= value in an ascending array (binary search).
+ */
+function lowerBound(sorted: number[], value: number): number {
+  let low = 0;
+  let high = sorted.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (sorted[mid] < value) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+}
+
+function segmentFor(r: number, f: number, m: number, orders: number): RfmSegment {
+  if (r >= 4 && f >= 4 && m >= 4) return "champions";
+  if (r >= 3 && f >= 4) return "loyal";
+  if (r >= 4 && orders === 1) return "new";
+  if (r >= 4) return "promising";
+  if (r <= 2 && f >= 3) return "at-risk";
+  if (r === 1) return "lost";
+  if (r === 2) return "hibernating";
+  return "needs-attention";
+}
@@ -0,0 +1,591 @@
+/**
+ * CLI Daemon
+ *
+ * Keeps a connected ShopifyMCPClient (and its cache) alive behind a local
+ * socket, so a chain of CLI calls starts the MCP server once instead of
+ * per command. The CLI forwards client method calls as NDJSON requests;
+ * iterate* methods stream their items back one line each. The daemon
+ * serves one store and exits after an idle period.
+ */
+
+import { spawn } from "child_process";
+import { AsyncLocalStorage } from "async_hooks";
+import { EventEmitter, once } from "events";
+import { closeSync, existsSync, mkdirSync, openSync, unlinkSync } from "fs";
+import { connect, createServer, type Server, type Socket } from "net";
+import { createInterface } from "readline";
+import { dirname, join } from "path";
+import { ConfigError, DATA_DIR, loadConfig, resolveStore } from "./config.js";
+import { ShopifyMCPClient, type ClientEvents } from "./mcp-client.js";
+import type { PageCheckpoint } from "./pagination.js";
+import { ResponseValidationError } from "./schemas.js";
+import { ShopifyToolError } from "./tool-errors.js";
+
+export const DEFAULT_DAEMON_DIR = join(DATA_DIR, "daemon");
+
+export const DEFAULT_IDLE_TIMEOUT_SEC = 15 * 60;
+
+// How long `daemon start` waits for the daemon to connect to the MCP server
+const START_TIMEOUT_MS = 60_000;
+
+/**
+ * Client methods the CLI sends to the daemon: everything that talks to the
+ * MCP server or the cache. The rest (config, stores, audit log) run locally.
+ */
+export const DAEMON_METHODS = [
+  "listTools", "getMissingTools", "callTool",
+  "getProducts", "iterateProducts", "getProductById", "createProduct", "updateProduct",
+  "getCustomers", "iterateCustomers", "getCustomerById", "updateCustomer", "getCustomerOrders",
+  "getOrders", "iterateOrders", "getAllOrders", "getOrderById", "findOrder",
+  "updateFulfillmentTracking", "createFulfillment", "createReturn", "createReverseDelivery", "updateOrder",
+  "modifyTags", "editTags", "undo",
+  "getCacheStats", "clearCache", "invalidateCacheKey",
+] as const satisfies ReadonlyArray<keyof ShopifyMCPClient>;
+
+type DaemonMethod = typeof DAEMON_METHODS[number];
+
+const DAEMON_METHOD_SET = new Set<string>(DAEMON_METHODS);
+
+function isDaemonMethod(method: string): method is DaemonMethod {
+  return DAEMON_METHOD_SET.has(method);
+}
+
+export interface DaemonStatus {
+  running: boolean;
+  store: string;
+  socket: string;
+  pid?: number;
+  startedAt?: string;
+  lastRequestAt?: string | null;
+  idleTimeoutSec?: number;
+  requests?: number;
+  activeRequests?: number;
+  /** Whether the daemon's MCP server connection is currently open */
+  mcpConnected?: boolean;
+}
+
+type DaemonRequest =
+  | { id: number; method: string; args: unknown[] }
+  | { id: number; cancel: true };
+
+type DaemonMessage =
+  | { id: number; result?: unknown }
+  // A null ID answers a line that wasn't a valid request
+  | { id: number | null; error: SerializedError }
+  | { id: number; item: unknown; checkpoint?: PageCheckpoint }
+  | { id: number; done: true }
+  | ForwardedEvent;
+
+// Client events sent to the CLI call whose request triggered them
+type ForwardedEvents = Pick<ClientEvents, "argument-warning" | "journal-warning">;
+
+type ForwardedEvent = { [E in keyof ForwardedEvents]: { event: E; data: ForwardedEvents[E][0] } }[keyof ForwardedEvents];
+
+type ForwardedSubscription = {
+  [E in keyof ForwardedEvents]: [event: E, listener: (...args: ForwardedEvents[E]) => void];
+}[keyof ForwardedEvents];
+
+interface SerializedError {
+  name: string;
+  message: string;
+  [field: string]: unknown;
+}
+
+// Errors rebuilt with their class so instanceof checks keep working in the CLI
+const ERROR_CLASSES: Record<string, { prototype: Error }> = {
+  ShopifyToolError,
+  ResponseValidationError,
+  ConfigError,
+};
+
+/**
+ * Resolves the store a daemon command applies to (the default profile if none is given).
+ */
+function storeName(store?: string): string {
+  return resolveStore(loadConfig(), store).name;
+}
+
+/**
+ * Socket path for a store's daemon; a named pipe on Windows.
+ */
+export function daemonSocketPath(store: string, dir = DEFAULT_DAEMON_DIR): string {
+  return process.platform === "win32"
+    ? `\\\\.\\pipe\\shopify-order-manager-${store}`
+    : join(dir, `${store}.sock`);
+}
+
+// ============================================
+// SERVER
+// ============================================
+
+/**
+ * Runs the daemon in the foreground until it is stopped or sits idle for
+ * `idleTimeoutSec`. Connects to the MCP server before listening, so a
+ * socket only appears once the daemon can serve requests.
+ */
+export async function runDaemon(options: { store?: string; idleTimeoutSec?: number } = {}): Promise<void> {
+  const client = new ShopifyMCPClient({ store: options.store });
+  const store = client.getStoreName();
+  const socketPath = daemonSocketPath(store);
+  const idleTimeoutSec = options.idleTimeoutSec ?? DEFAULT_IDLE_TIMEOUT_SEC;
+  const startedAt = new Date().toISOString();
+  const requestSocket = new AsyncLocalStorage<Socket>();
+  let lastRequestAt: string | null = null;
+  let requests = 0;
+  let active = 0;
+  let idleTimer: NodeJS.Timeout | undefined;
+  let stopping: Promise<void> | undefined;
+  const sockets = new Set<Socket>();
+
+  const log = (message: string) => console.error(`${new Date().toISOString()} ${message}`);
+
+  client.on("connected", ({ reconnect }) => log(reconnect ? "MCP server reconnected" : "MCP server connected"));
+  client.on("disconnected", ({ reason, expected }) => {
+    if (!expected) log(`MCP server disconnected: ${reason}`);
+  });
+  // Warnings go to the CLI call whose request triggered them
+  const forward = (message: ForwardedEvent) => {
+    const socket = requestSocket.getStore();
+    if (socket) write(socket, message);
+  };
+  client.on("argument-warning", (data) => forward({ event: "argument-warning", data }));
+  client.on("journal-warning", (data) => forward({ event: "journal-warning", data }));
+
+  await client.connect();
+
+  const status = (): DaemonStatus => ({
+    running: true,
+    store,
+    socket: socketPath,
+    pid: process.pid,
+    startedAt,
+    lastRequestAt,
+    idleTimeoutSec,
+    requests,
+    activeRequests: active,
+    mcpConnected: client.isConnected(),
+  });
+
+  const resetIdleTimer = () => {
+    clearTimeout(idleTimer);
+    if (active === 0 && idleTimeoutSec > 0) {
+      idleTimer = setTimeout(() => stop(`idle for ${idleTimeoutSec}s`), idleTimeoutSec * 1000);
+    }
+  };
+
+  const stop = (reason: string): Promise<void> => {
+    stopping ??= (async () => {
+      log(`Stopping: ${reason}`);
+      clearTimeout(idleTimer);
+      const closed = new Promise<void>((resolve) => server.close(() => resolve()));
+      // close() waits for open connections, and idle CLI calls may hold one
+      for (const socket of sockets) socket.end();
+      await closed;
+      await client.disconnect();
+    })();
+    return stopping;
+  };
+
+  const handle = async (socket: Socket, request: DaemonRequest, cancelled: Set<number>) => {
+    if ("cancel" in request) {
+      cancelled.add(request.id);
+      return;
+    }
+
+    const { id, method, args } = request;
+    try {
+      if (method === "daemon.status") return write(socket, { id, result: status() });
+      if (method === "daemon.stop") {
+        write(socket, { id, result: { ...status(), running: false } });
+        void stop("stop requested");
+        return;
+      }
+      if (!isDaemonMethod(method)) throw new Error(`Unknown daemon method "${method}"`);
+
+      const target = client[method];
+      if (method.startsWith("iterate")) {
+        let checkpoint: PageCheckpoint | undefined;
+        const options = { ...(args[0] as object), onCheckpoint: (c: PageCheckpoint) => { checkpoint = c; } };
+        const iterator: AsyncIterable<unknown> = Reflect.apply(target, client, [options]);
+        for await (const item of iterator) {
+          if (cancelled.has(id) || socket.destroyed) break;
+          // Breaking out also stops the iterator, so no more pages are fetched
+          if (!write(socket, { id, item, checkpoint }) && !(await drained(socket))) break;
+        }
+        write(socket, { id, done: true });
+      } else {
+        write(socket, { id, result: await Reflect.apply(target, client, args) });
+      }
+    } catch (error) {
+      write(socket, { id, error: serializeError(error) });
+    } finally {
+      cancelled.delete(id);
+    }
+  };
+
+  const server: Server = createServer((socket) => {
+    const cancelled = new Set<number>();
+    sockets.add(socket);
+    socket.on("close", () => sockets.delete(socket));
+    socket.on("error", () => {});  // The CLI exiting mid-stream is normal
+    createInterface({ input: socket }).on("line", (line) => {
+      if (!line.trim()) return;
+      let request: DaemonRequest;
+      try {
+        request = parseRequest(line);
+      } catch (error) {
+        // One bad client mustn't take the daemon down for everyone else
+        write(socket, { id: null, error: serializeError(error) });
+        return;
+      }
+      // Status checks and cancellations don't count as activity
+      const counted = !("cancel" in request) && !request.method.startsWith("daemon.");
+      if (counted) {
+        requests++;
+        active++;
+        lastRequestAt = new Date().toISOString();
+        clearTimeout(idleTimer);
+      }
+      requestSocket.run(socket, () => handle(socket, request, cancelled)).finally(() => {
+        if (!counted) return;
+        active--;
+        resetIdleTimer();
+      });
+    });
+  });
+
+  if (process.platform !== "win32") {
+    mkdirSync(dirname(socketPath), { recursive: true, mode: 0o700 });
+    if (existsSync(socketPath)) unlinkSync(socketPath);  // Left by a daemon that crashed
+  }
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(socketPath, () => resolve());
+  });
+  log(`Listening on ${socketPath} for store "${store}" (idle timeout ${idleTimeoutSec}s)`);
+  resetIdleTimer();
+
+  for (const signal of ["SIGINT", "SIGTERM"] as const) {
+    process.once(signal, () => void stop(signal));
+  }
+  await once(server, "close");
+  await stopping;
+}
+
+/**
+ * Parses one NDJSON request line.
+ *
+ * @throws {Error} If the line isn't JSON or isn't a request
+ */
+function parseRequest(line: string): DaemonRequest {
+  let request: unknown;
+  try {
+    request = JSON.parse(line);
+  } catch (error) {
+    throw new Error(`Invalid daemon request: ${(error as Error).message}`);
+  }
+  const { id, method, args, cancel } = (request ?? {}) as Record<string, unknown>;
+  if (typeof id === "number" && cancel === true) return { id, cancel };
+  if (typeof id === "number" && typeof method === "string" && Array.isArray(args)) return { id, method, args };
+  throw new Error("Invalid daemon request: expected { id, method, args } or { id, cancel: true }");
+}
+
+function write(socket: Socket, message: DaemonMessage): boolean {
+  if (socket.destroyed) return true;
+  return socket.write(JSON.stringify(message) + "\n");
+}
+
+/**
+ * Waits for a socket's buffer to drain. Resolves false instead if the socket
+ * closes first, which a CLI that exits mid-stream can do without an error.
+ */
+function drained(socket: Socket): Promise<boolean> {
+  return new Promise((resolve) => {
+    const onDrain = () => {
+      socket.off("close", onClose);
+      resolve(true);
+    };
+    const onClose = () => {
+      socket.off("drain", onDrain);
+      resolve(false);
+    };
+    socket.once("drain", onDrain);
+    socket.once("close", onClose);
+  });
+}
+
+function serializeError(error: unknown): SerializedError {
+  if (!(error instanceof Error)) return { name: "Error", message: String(error) };
+  return { ...(error as unknown as Record<string, unknown>), name: error.name, message: error.message };
+}
+
+function deserializeError({ name, message, ...fields }: SerializedError): Error {
+  const error = Object.assign(new Error(message), fields, { name });
+  const errorClass = ERROR_CLASSES[name];
+  if (errorClass) Object.setPrototypeOf(error, errorClass.prototype);
+  return error;
+}
+
+// ============================================
+// CLIENT
+// ============================================
+
+/**
+ * An open connection to a running daemon. Requests are multiplexed by ID,
+ * so concurrent calls share the socket.
+ */
+export class DaemonConnection {
+  private nextId = 1;
+  private pending = new Map<number, {
+    resolve: (value: unknown) => void;
+    reject: (error: Error) => void;
+    onItem?: (item: unknown, checkpoint?: PageCheckpoint) => void;
+  }>();
+  private events = new EventEmitter<ForwardedEvents>();
+  private closed = false;
+
+  private constructor(private readonly socket: Socket) {
+    createInterface({ input: socket }).on("line", (line) => {
+      let message: DaemonMessage;
+      try {
+        message = JSON.parse(line) as DaemonMessage;
+      } catch {
+        return;  // Not from a daemon; nothing pending can be matched to it
+      }
+      this.receive(message);
+    });
+    socket.on("error", () => {});
+    socket.on("close", () => {
+      this.closed = true;
+      for (const [id, { reject }] of this.pending) {
+        reject(new ShopifyToolError("CONNECTION", "daemon", "The daemon closed the connection"));
+        this.pending.delete(id);
+      }
+    });
+  }
+
+  /**
+   * Connects to a store's daemon, or resolves to null when none is running.
+   * A socket left behind by a crashed daemon is removed.
+   */
+  static async open(store: string): Promise<DaemonConnection | null> {
+    const path = daemonSocketPath(store);
+    if (process.platform !== "win32" && !existsSync(path)) return null;
+
+    return new Promise((resolve) => {
+      const socket = connect(path);
+      socket.once("connect", () => resolve(new DaemonConnection(socket)));
+      socket.once("error", (error: NodeJS.ErrnoException) => {
+        if (error.code === "ECONNREFUSED" && process.platform !== "win32") {
+          try {
+            unlinkSync(path);
+          } catch {
+            // Another CLI call removed it first
+          }
+        }
+        resolve(null);
+      });
+    });
+  }
+
+  isOpen(): boolean {
+    return !this.closed;
+  }
+
+  on<E extends keyof ForwardedEvents>(event: E, listener: (...args: ForwardedEvents[E]) => void): this;
+  on(...[event, listener]: ForwardedSubscription): this {
+    this.events.on(event, listener);
+    return this;
+  }
+
+  /**
+   * Calls a client method (or daemon.status / daemon.stop) in the daemon.
+   */
+  call(method: string, args: unknown[] = []): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      const id = this.send(method, args);
+      this.pending.set(id, { resolve, reject });
+    });
+  }
+
+  /**
+   * Calls an iterate* method in the daemon and yields its items as they arrive.
+   * Stopping early cancels the iteration in the daemon.
+   */
+  async *stream<T>(method: string, options: { onCheckpoint?: (checkpoint: PageCheckpoint) => void } = {}): AsyncGenerator<T> {
+    const { onCheckpoint, ...rest } = options;
+    const queue: Array<{ item: T; checkpoint?: PageCheckpoint }> = [];
+    let wake: (() => void) | undefined;
+    let finished = false;
+    let failure: Error | undefined;
+
+    const id = this.send(method, [rest]);
+    this.pending.set(id, {
+      resolve: () => { finished = true; wake?.(); },
+      reject: (error) => { failure = error; finished = true; wake?.(); },
+      onItem: (item, checkpoint) => { queue.push({ item: item as T, checkpoint }); wake?.(); },
+    });
+
+    try {
+      while (true) {
+        const next = queue.shift();
+        if (next) {
+          if (next.checkpoint) onCheckpoint?.(next.checkpoint);
+          yield next.item;
+          continue;
+        }
+        if (failure) throw failure;
+        if (finished) return;
+        await new Promise<void>((resolve) => (wake = resolve));
+        wake = undefined;
+      }
+    } finally {
+      if (!finished && !this.closed) {
+        this.pending.delete(id);
+        this.socket.write(JSON.stringify({ id, cancel: true }) + "\n");
+      }
+    }
+  }
+
+  close(): void {
+    this.closed = true;
+    this.socket.end();
+  }
+
+  private send(method: string, args: unknown[]): number {
+    if (this.closed) throw new ShopifyToolError("CONNECTION", method, "The daemon connection is closed");
+    const id = this.nextId++;
+    this.socket.write(JSON.stringify({ id, method, args }) + "\n");
+    return id;
+  }
+
+  private receive(message: DaemonMessage): void {
+    if ("event" in message) {
+      // Narrowed per event so emit() checks the payload
+      if (message.event === "argument-warning") this.events.emit(message.event, message.data);
+      else this.events.emit(message.event, message.data);
+      return;
+    }
+    if (message.id === null) return;  // Only sent for requests this class never writes
+    const request = this.pending.get(message.id);
+    if (!request) return;  // Cancelled stream
+
+    if ("item" in message) {
+      request.onItem?.(message.item, message.checkpoint);
+      return;
+    }
+    this.pending.delete(message.id);
+    if ("error" in message) request.reject(deserializeError(message.error));
+    else request.resolve("result" in message ? message.result : undefined);
+  }
+}
+
+/**
+ * Connects to a store's daemon if one is running. Resolves to null
+ * otherwise, including when config.json can't be read (the direct client
+ * reports that with a better message).
+ */
+export async function connectDaemon(store?: string): Promise<DaemonConnection | null> {
+  let name: string;
+  try {
+    name = storeName(store);
+  } catch {
+    return null;
+  }
+  return DaemonConnection.open(name);
+}
+
+/**
+ * Wraps a client so DAEMON_METHODS run in the daemon and everything else
+ * (config, store info, audit log reads) runs on the local instance.
+ * disconnect() closes the daemon connection, leaving the daemon running.
+ */
+export function daemonClient<T extends ShopifyMCPClient>(local: T, connection: DaemonConnection): T {
+  return new Proxy(local, {
+    get(target, property, receiver) {
+      if (property === "connect") return async () => {};
+      if (property === "disconnect") return async () => connection.close();
+      if (property === "isConnected") return () => connection.isOpen();
+      if (typeof property === "string" && DAEMON_METHOD_SET.has(property)) {
+        return property.startsWith("iterate")
+          ? (options?: object) => connection.stream(property, options)
+          : (...args: unknown[]) => connection.call(property, args);
+      }
+      return Reflect.get(target, property, receiver);
+    },
+  });
+}
+
+// ============================================
+// COMMANDS
+// ============================================
+
+/**
+ * Reports whether a store's daemon is running.
+ */
+export async function getDaemonStatus(store?: string): Promise<DaemonStatus> {
+  const name = storeName(store);
+  const connection = await DaemonConnection.open(name);
+  if (!connection) return { running: false, store: name, socket: daemonSocketPath(name) };
+  try {
+    return (await connection.call("daemon.status")) as DaemonStatus;
+  } finally {
+    connection.close();
+  }
+}
+
+/**
+ * Starts a daemon for a store in the background, waiting until it has
+ * connected to the MCP server. Does nothing if one is already running.
+ *
+ * @param options.entry - Script that runs `daemon run` (default: the current CLI)
+ * @throws {Error} If the daemon exits or doesn't come up in time; its log has the reason
+ */
+export async function startDaemon(options: { store?: string; idleTimeoutSec?: number; entry?: string } = {}): Promise<DaemonStatus> {
+  const name = storeName(options.store);
+  const existing = await getDaemonStatus(name);
+  if (existing.running) return existing;
+
+  mkdirSync(DEFAULT_DAEMON_DIR, { recursive: true, mode: 0o700 });
+  const logPath = join(DEFAULT_DAEMON_DIR, `${name}.log`);
+  const logFd = openSync(logPath, "a");
+  const child = spawn(
+    process.execPath,
+    [
+      ...process.execArgv,
+      options.entry ?? process.argv[1],
+      "daemon", "run",
+      "--store", name,
+      "--idleTimeout", String(options.idleTimeoutSec ?? DEFAULT_IDLE_TIMEOUT_SEC),
+    ],
+    { detached: true, stdio: ["ignore", logFd, logFd] }
+  );
+  closeSync(logFd);
+  child.unref();
+
+  let exitCode: number | null = null;
+  child.once("exit", (code) => (exitCode = code ?? 1));
+
+  const deadline = Date.now() + START_TIMEOUT_MS;
+  while (Date.now() < deadline) {
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    if (exitCode !== null) throw new Error(`Daemon exited with code ${exitCode} while starting; see ${logPath}`);
+    const status = await getDaemonStatus(name);
+    if (status.running) return status;
+  }
+  throw new Error(`Daemon did not start within ${START_TIMEOUT_MS / 1000}s; see ${logPath}`);
+}
+
+/**
+ * Stops a store's daemon if one is running.
+ */
+export async function stopDaemon(store?: string): Promise<DaemonStatus> {
+  const name = storeName(store);
+  const connection = await DaemonConnection.open(name);
+  if (!connection) return { running: false, store: name, socket: daemonSocketPath(name) };
+  try {
+    return (await connection.call("daemon.stop")) as DaemonStatus;
+  } finally {
+    connection.close();
+  }
+}
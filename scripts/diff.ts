@@ -0,0 +1,77 @@
+/**
+ * Dry-Run Diffs
+ *
+ * Field-by-field comparison of an entity's current state against a
+ * proposed mutation, used by --dry-run to preview writes.
+ */
+
+export interface FieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+  /** For list fields (tags): entries that would be added */
+  added?: string[];
+  /** For list fields (tags): entries that would be removed */
+  removed?: string[];
+}
+
+export interface DryRunResult {
+  dryRun: true;
+  /** MCP tool that would have been called */
+  operation: string;
+  /** ID, order number or title of the entity being changed */
+  target: string;
+  /** Current entity state, or null if it cannot be fetched */
+  before: unknown;
+  changes: FieldChange[];
+  warnings: string[];
+}
+
+/**
+ * Type guard for results returned in dry-run mode.
+ */
+export function isDryRun(result: unknown): result is DryRunResult {
+  return typeof result === "object" && result !== null && (result as DryRunResult).dryRun === true;
+}
+
+/**
+ * Compares the fields being set against the current entity.
+ *
+ * Only fields present (not undefined) in `updates` are compared, and
+ * unchanged fields are omitted. Arrays of strings are compared as sets
+ * and report added/removed entries.
+ *
+ * @param before - Current entity (or null for creates)
+ * @param updates - Fields the mutation would set
+ */
+export function diffFields(
+  before: Record<string, any> | null,
+  updates: Record<string, unknown>
+): FieldChange[] {
+  const changes: FieldChange[] = [];
+
+  for (const [field, after] of Object.entries(updates)) {
+    if (after === undefined) continue;
+    const current = before?.[field] ?? null;
+
+    if (isStringArray(after) && (current === null || isStringArray(current))) {
+      const previous = current ?? [];
+      const added = after.filter((v) => !previous.includes(v));
+      const removed = previous.filter((v: string) => !after.includes(v));
+      if (added.length || removed.length) {
+        changes.push({ field, before: current, after, added, removed });
+      }
+      continue;
+    }
+
+    if (JSON.stringify(current) !== JSON.stringify(after)) {
+      changes.push({ field, before: current, after });
+    }
+  }
+
+  return changes;
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((v) => typeof v === "string");
+}
@@ -0,0 +1,164 @@
+/**
+ * Setup Diagnostics
+ *
+ * Checks config.json, the selected store profile, the MCP server command
+ * and the tools the server provides, reporting each problem with a fix.
+ */
+
+import { existsSync } from "fs";
+import { delimiter, join } from "path";
+import { CONFIG_PATH, ConfigError, loadConfig, resolveStore, type PluginConfig, type ResolvedStore } from "./config.js";
+import { CLIENT_TOOLS, ShopifyMCPClient } from "./mcp-client.js";
+
+export type CheckStatus = "pass" | "warn" | "fail";
+
+export interface DoctorCheck {
+  check: string;
+  status: CheckStatus;
+  message: string;
+  fix?: string;
+}
+
+export interface DoctorReport {
+  /** False if any check failed (warnings don't count) */
+  ok: boolean;
+  store?: string;
+  /** One "PASS|WARN|FAIL check: message" line per check */
+  summary: string[];
+  checks: DoctorCheck[];
+}
+
+/**
+ * Runs the checks in order, stopping at the first failure that later
+ * checks depend on (e.g. no server connection means no tool check).
+ *
+ * @param options - Store profile to check and optional config path
+ */
+export async function runDoctor(options: { store?: string; configPath?: string } = {}): Promise<DoctorReport> {
+  const checks: DoctorCheck[] = [];
+  const configPath = options.configPath ?? CONFIG_PATH;
+  const report = (store?: string): DoctorReport => ({
+    ok: checks.every((c) => c.status !== "fail"),
+    store,
+    summary: checks.map((c) => `${c.status.toUpperCase()} ${c.check}: ${c.message}`),
+    checks,
+  });
+
+  let config: PluginConfig;
+  try {
+    config = loadConfig(configPath);
+    checks.push({ check: "config", status: "pass", message: `${configPath} is valid` });
+  } catch (error) {
+    checks.push({ check: "config", status: "fail", message: (error as Error).message, fix: configFix(error) });
+    return report();
+  }
+
+  let store: ResolvedStore;
+  try {
+    store = resolveStore(config, options.store);
+    checks.push({ check: "store", status: "pass", message: `Using store "${store.name}" (${store.storeDomain})` });
+  } catch (error) {
+    checks.push({
+      check: "store",
+      status: "fail",
+      message: (error as Error).message,
+      fix: "Pass --store <name>, or set defaultStore in config.json",
+    });
+    return report();
+  }
+
+  checks.push(...profileWarnings(store));
+
+  const { command, args, env } = store.mcpServer;
+  const executable = findExecutable(command, env?.PATH ?? process.env.PATH ?? "");
+  if (!executable) {
+    checks.push({
+      check: "server-command",
+      status: "fail",
+      message: `"${command}" was not found on PATH`,
+      fix: `Install it, or set stores.${store.name}.mcpServer.command to its full path`,
+    });
+    return report(store.name);
+  }
+  checks.push({ check: "server-command", status: "pass", message: `${command} -> ${executable}` });
+
+  const client = new ShopifyMCPClient({ store: store.name, retry: { retries: 0 } });
+  let toolNames: Set<string>;
+  try {
+    const tools = await client.listTools();
+    toolNames = new Set(tools.map((t) => t.name));
+    checks.push({ check: "server-connect", status: "pass", message: `Connected; server provides ${tools.length} tools` });
+  } catch (error) {
+    checks.push({
+      check: "server-connect",
+      status: "fail",
+      message: (error as Error).message,
+      fix: `Run \`${[command, ...args].join(" ")}\` by hand to see the server's own error (check mcpServer.env credentials)`,
+    });
+    return report(store.name);
+  } finally {
+    await client.disconnect();
+  }
+
+  const missing = Object.entries(CLIENT_TOOLS).filter(([name]) => !toolNames.has(name));
+  for (const [name, { commands, optional }] of missing) {
+    checks.push({
+      check: `tool:${name}`,
+      status: optional ? "warn" : "fail",
+      message: `Server does not provide "${name}"; affected commands: ${commands.join(", ")}`,
+      fix: "Use a Shopify MCP server version that provides this tool, or avoid those commands",
+    });
+  }
+  if (missing.length === 0) {
+    checks.push({ check: "tools", status: "pass", message: `All ${Object.keys(CLIENT_TOOLS).length} tools the CLI uses are available` });
+  }
+
+  return report(store.name);
+}
+
+function configFix(error: unknown): string {
+  if (!(error instanceof ConfigError)) return "Check config.json";
+  if (!existsSync(error.path)) return "cp config.template.json config.json, then fill in storeDomain and mcpServer";
+  if (error.issues.length === 0) return "Fix the JSON syntax (trailing commas and comments are not allowed)";
+  return "Correct the fields listed above; config.template.json shows the expected layout";
+}
+
+/**
+ * Flags values still copied from config.template.json.
+ */
+function profileWarnings(store: ResolvedStore): DoctorCheck[] {
+  const warnings: DoctorCheck[] = [];
+  if (!/\.myshopify\.com$/.test(store.storeDomain) || store.storeDomain.startsWith("your-")) {
+    warnings.push({
+      check: "store-domain",
+      status: "warn",
+      message: `storeDomain "${store.storeDomain}" is a template placeholder or not a <shop>.myshopify.com domain`,
+      fix: `Set stores.${store.name}.storeDomain to the shop's myshopify.com domain`,
+    });
+  }
+  const placeholders = Object.entries(store.mcpServer.env ?? {})
+    .filter(([, value]) => /^your-/.test(value))
+    .map(([key]) => key);
+  if (placeholders.length) {
+    warnings.push({
+      check: "server-env",
+      status: "warn",
+      message: `Template placeholder values in mcpServer.env: ${placeholders.join(", ")}`,
+      fix: `Replace them with real values in stores.${store.name}.mcpServer.env`,
+    });
+  }
+  return warnings;
+}
+
+function findExecutable(command: string, path: string): string | undefined {
+  if (command.includes("/") || command.includes("\\")) return existsSync(command) ? command : undefined;
+
+  const extensions = process.platform === "win32" ? (process.env.PATHEXT ?? ".EXE;.CMD;.BAT").split(";") : [""];
+  for (const dir of path.split(delimiter).filter(Boolean)) {
+    for (const ext of extensions) {
+      const candidate = join(dir, command + ext);
+      if (existsSync(candidate)) return candidate;
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,333 @@
+/**
+ * Duplicate Customer Detection
+ *
+ * Finds customer records that likely belong to the same person. Emails,
+ * phone numbers, names and addresses are normalized into match keys;
+ * customers sharing a key are compared pairwise, each shared key adds a
+ * weighted reason, and pairs above the confidence threshold are merged
+ * into groups.
+ */
+
+import type { ShopifyMCPClient } from "./mcp-client.js";
+import type { Customer } from "./schemas.js";
+
+export interface DuplicateOptions {
+  /** Only scan customers matching this search */
+  searchQuery?: string;
+  /** Stop after scanning this many customers */
+  max?: number;
+  /** Pairs below this confidence (0-1) aren't reported (default: 0.5) */
+  minConfidence?: number;
+  /** ISO country for phone numbers without a country code and without an address country */
+  defaultCountry?: string;
+}
+
+export interface DuplicateMatch {
+  customerIds: [string, string];
+  confidence: number;
+  reasons: string[];
+}
+
+export interface DuplicateGroupCustomer {
+  id: string;
+  name: string | null;
+  email: string | null;
+  phone: string | null;
+  createdAt: string | null;
+  tags: string[];
+  orders: number;
+  /** More orders exist than one get-customer-orders page returned */
+  ordersCapped?: boolean;
+}
+
+export interface DuplicateGroup {
+  /** Highest confidence among the group's matches */
+  confidence: number;
+  customers: DuplicateGroupCustomer[];
+  totalOrders: number;
+  /** Most orders, then oldest; the others would be merged into it */
+  suggestedKeep: string;
+  matches: DuplicateMatch[];
+}
+
+export interface DuplicateReport {
+  customersScanned: number;
+  groups: DuplicateGroup[];
+}
+
+// Weights combine as independent evidence: 1 - (1 - a)(1 - b)...
+const WEIGHTS = {
+  email: 0.95,
+  canonicalEmail: 0.85,
+  phone: 0.8,
+  nameAndAddress: 0.85,
+  address: 0.3,
+  name: 0.2,
+};
+
+// Keys shared by more customers than this (an office phone, a warehouse
+// address) don't generate candidate pairs; they still count as a reason
+const MAX_BUCKET = 25;
+
+// Orders fetched per customer to count them
+const ORDER_COUNT_LIMIT = 250;
+
+// Calling codes for the countries phone numbers are most often written without one
+const CALLING_CODES: Record<string, string> = {
+  US: "1", CA: "1", GB: "44", IE: "353", AU: "61", NZ: "64", DE: "49", FR: "33", ES: "34", IT: "39",
+  NL: "31", BE: "32", LU: "352", CH: "41", AT: "43", SE: "46", NO: "47", DK: "45", FI: "358", PT: "351",
+  PL: "48", CZ: "420", JP: "81", KR: "82", IN: "91", SG: "65", HK: "852", ZA: "27", BR: "55", MX: "52",
+};
+
+// Providers that ignore dots in the local part of an address
+const DOTLESS_EMAIL_DOMAINS: Record<string, string> = { "gmail.com": "gmail.com", "googlemail.com": "gmail.com" };
+
+const STREET_ABBREVIATIONS: Record<string, string> = {
+  street: "st", road: "rd", avenue: "ave", lane: "ln", drive: "dr", court: "ct", place: "pl",
+  boulevard: "blvd", terrace: "ter", crescent: "cres", close: "cl", square: "sq",
+  apartment: "apt", suite: "ste", flat: "apt", unit: "apt", north: "n", south: "s", east: "e", west: "w",
+};
+
+interface CustomerKeys {
+  customer: Customer;
+  email: string | null;
+  canonicalEmail: string | null;
+  phone: string | null;
+  name: string | null;
+  address: string | null;
+}
+
+/**
+ * Scans customers and groups likely duplicates, with order counts per record.
+ *
+ * @param client - Client to page customers and fetch order histories through
+ */
+export async function findDuplicateCustomers(
+  client: ShopifyMCPClient,
+  options: DuplicateOptions = {}
+): Promise<DuplicateReport> {
+  const minConfidence = options.minConfidence ?? 0.5;
+  const scanned: CustomerKeys[] = [];
+  for await (const customer of client.iterateCustomers({ searchQuery: options.searchQuery, max: options.max })) {
+    scanned.push(customerKeys(customer, options.defaultCountry));
+  }
+
+  const matches = candidatePairs(scanned)
+    .map(([a, b]) => compareCustomers(a, b))
+    .filter((match) => match.confidence >= minConfidence);
+
+  const groups: DuplicateGroup[] = [];
+  for (const members of groupMatches(matches)) {
+    const customers: DuplicateGroupCustomer[] = [];
+    for (const id of members) {
+      const { customer } = scanned.find((keys) => keys.customer.id === id)!;
+      customers.push({ ...summarize(customer), ...(await countOrders(client, id)) });
+    }
+    // Records without a creation date sort last among equal order counts
+    const [keep] = [...customers].sort((a, b) =>
+      b.orders - a.orders || (a.createdAt ?? "9999").localeCompare(b.createdAt ?? "9999"));
+    const memberMatches = matches.filter((match) => members.has(match.customerIds[0]));
+    groups.push({
+      confidence: Math.max(...memberMatches.map((match) => match.confidence)),
+      customers,
+      totalOrders: customers.reduce((sum, c) => sum + c.orders, 0),
+      suggestedKeep: keep.id,
+      matches: memberMatches,
+    });
+  }
+
+  return {
+    customersScanned: scanned.length,
+    groups: groups.sort((a, b) => b.confidence - a.confidence || b.totalOrders - a.totalOrders),
+  };
+}
+
+/**
+ * Normalizes an email for comparison: trimmed and lowercased.
+ */
+export function normalizeEmail(email: string | null | undefined): string | null {
+  const normalized = email?.trim().toLowerCase();
+  return normalized && normalized.includes("@") ? normalized : null;
+}
+
+/**
+ * Reduces an email to the mailbox it delivers to: drops +tags, and dots
+ * for providers that ignore them (john.doe+shop@gmail.com -> johndoe@gmail.com).
+ */
+export function canonicalEmail(email: string | null | undefined): string | null {
+  const normalized = normalizeEmail(email);
+  if (!normalized) return null;
+  const at = normalized.lastIndexOf("@");
+  let local = normalized.slice(0, at).replace(/\+.*$/, "");
+  let domain = normalized.slice(at + 1);
+  if (DOTLESS_EMAIL_DOMAINS[domain]) {
+    local = local.replace(/\./g, "");
+    domain = DOTLESS_EMAIL_DOMAINS[domain];
+  }
+  return local ? `${local}@${domain}` : null;
+}
+
+/**
+ * Converts a phone number to E.164 (+447700900123). Numbers without a
+ * country code take it from `country`; returns null when that's unknown
+ * or the number is too short to be real.
+ *
+ * @param country - ISO country code of the customer's address
+ */
+export function normalizePhone(phone: string | null | undefined, country?: string | null): string | null {
+  if (!phone) return null;
+  // Extensions and a bracketed trunk prefix (+44 (0)7700...) aren't part of the number
+  const trimmed = phone.trim().replace(/\s*(ext\.?|x|#)\s*\d+$/i, "").replace("(0)", "");
+  let digits = trimmed.replace(/\D/g, "");
+
+  if (!trimmed.startsWith("+")) {
+    const code = country ? CALLING_CODES[country.toUpperCase()] : undefined;
+    if (digits.startsWith("00")) {
+      digits = digits.slice(2);
+    } else if (!code) {
+      return null;
+    } else if (!(code === "1" && digits.length === 11 && digits.startsWith("1"))) {
+      // Drop the trunk prefix (07700... in the UK is +447700...). North American
+      // numbers are often written with their country code and no +, so those stay.
+      digits = code + digits.replace(/^0/, "");
+    }
+  }
+  return digits.length >= 8 && digits.length <= 15 ? `+${digits}` : null;
+}
+
+/**
+ * Name fingerprint: accents, punctuation and word order ignored, so
+ * "José O'Neil" and "oneil jose" match.
+ */
+export function nameFingerprint(firstName?: string | null, lastName?: string | null): string | null {
+  const words = foldText(`${firstName ?? ""} ${lastName ?? ""}`).split(" ").filter(Boolean);
+  return words.length ? words.sort().join(" ") : null;
+}
+
+/**
+ * Address fingerprint from the first address line and postcode (or city),
+ * with common street words abbreviated ("5 Quay Road" = "5 quay rd").
+ */
+export function addressFingerprint(address: Customer["defaultAddress"]): string | null {
+  if (!address?.address1) return null;
+  const street = foldText(address.address1)
+    .split(" ")
+    .map((word) => STREET_ABBREVIATIONS[word] ?? word)
+    .join(" ");
+  const area = address.zip ? address.zip.replace(/\s+/g, "").toUpperCase() : foldText(address.city ?? "");
+  return street && area ? `${street}|${area}` : null;
+}
+
+function customerKeys(customer: Customer, defaultCountry?: string): CustomerKeys {
+  const country = customer.defaultAddress?.countryCode ?? defaultCountry;
+  return {
+    customer,
+    email: normalizeEmail(customer.email),
+    canonicalEmail: canonicalEmail(customer.email),
+    phone: normalizePhone(customer.phone ?? customer.defaultAddress?.phone, country),
+    name: nameFingerprint(customer.firstName, customer.lastName),
+    address: addressFingerprint(customer.defaultAddress),
+  };
+}
+
+/**
+ * Pairs of customers sharing an email, phone or address key.
+ */
+function candidatePairs(scanned: CustomerKeys[]): Array<[CustomerKeys, CustomerKeys]> {
+  const buckets = new Map<string, CustomerKeys[]>();
+  for (const keys of scanned) {
+    const matchKeys = [
+      keys.canonicalEmail && `email:${keys.canonicalEmail}`,
+      keys.phone && `phone:${keys.phone}`,
+      keys.address && `address:${keys.address}`,
+    ];
+    for (const key of matchKeys) {
+      if (!key) continue;
+      const bucket = buckets.get(key);
+      if (bucket) bucket.push(keys);
+      else buckets.set(key, [keys]);
+    }
+  }
+
+  const pairs = new Map<string, [CustomerKeys, CustomerKeys]>();
+  for (const bucket of buckets.values()) {
+    if (bucket.length < 2 || bucket.length > MAX_BUCKET) continue;
+    for (let i = 0; i < bucket.length; i++) {
+      for (let j = i + 1; j < bucket.length; j++) {
+        const [a, b] = [bucket[i], bucket[j]].sort((x, y) => x.customer.id.localeCompare(y.customer.id));
+        if (a.customer.id !== b.customer.id) pairs.set(`${a.customer.id} ${b.customer.id}`, [a, b]);
+      }
+    }
+  }
+  return [...pairs.values()];
+}
+
+function compareCustomers(a: CustomerKeys, b: CustomerKeys): DuplicateMatch {
+  const reasons: Array<[string, number]> = [];
+  if (a.email && a.email === b.email) {
+    const exact = a.customer.email?.trim() === b.customer.email?.trim();
+    reasons.push([exact ? "same email" : "same email, different capitalization", WEIGHTS.email]);
+  } else if (a.canonicalEmail && a.canonicalEmail === b.canonicalEmail) {
+    reasons.push([`same mailbox (${a.canonicalEmail}) ignoring +tags/dots`, WEIGHTS.canonicalEmail]);
+  }
+  if (a.phone && a.phone === b.phone) {
+    const exact = a.customer.phone === b.customer.phone;
+    reasons.push([exact ? `same phone ${a.phone}` : `same phone ${a.phone} in a different format`, WEIGHTS.phone]);
+  }
+  const sameName = a.name !== null && a.name === b.name;
+  const sameAddress = a.address !== null && a.address === b.address;
+  if (sameName && sameAddress) reasons.push(["same name and address", WEIGHTS.nameAndAddress]);
+  else if (sameAddress) reasons.push(["same address, different name", WEIGHTS.address]);
+  else if (sameName) reasons.push(["same name", WEIGHTS.name]);
+
+  const confidence = 1 - reasons.reduce((remaining, [, weight]) => remaining * (1 - weight), 1);
+  return {
+    customerIds: [a.customer.id, b.customer.id],
+    confidence: Math.round(confidence * 100) / 100,
+    reasons: reasons.map(([reason]) => reason),
+  };
+}
+
+/**
+ * Merges matched pairs into groups of customer IDs (connected components).
+ */
+function groupMatches(matches: DuplicateMatch[]): Array<Set<string>> {
+  const groupOf = new Map<string, Set<string>>();
+  for (const { customerIds: [a, b] } of matches) {
+    const groupA = groupOf.get(a) ?? new Set([a]);
+    const groupB = groupOf.get(b) ?? new Set([b]);
+    if (groupA === groupB) continue;
+    for (const id of groupB) groupA.add(id);
+    for (const id of groupA) groupOf.set(id, groupA);
+  }
+  return [...new Set(groupOf.values())];
+}
+
+async function countOrders(client: ShopifyMCPClient, customerId: string): Promise<{ orders: number; ordersCapped?: boolean }> {
+  // get-customer-orders takes the numeric ID, as the CLI command passes it
+  const numericId = customerId.match(/gid:\/\/shopify\/Customer\/(\d+)/)?.[1] ?? customerId;
+  const { orders, pageInfo } = await client.getCustomerOrders(numericId, ORDER_COUNT_LIMIT);
+  return { orders: orders.length, ...(pageInfo?.hasNextPage ? { ordersCapped: true } : {}) };
+}
+
+function summarize(customer: Customer): Omit<DuplicateGroupCustomer, "orders" | "ordersCapped"> {
+  const name = [customer.firstName, customer.lastName].filter(Boolean).join(" ");
+  return {
+    id: customer.id,
+    name: name || null,
+    email: customer.email ?? null,
+    phone: customer.phone ?? null,
+    createdAt: customer.createdAt ?? null,
+    tags: customer.tags,
+  };
+}
+
+function foldText(text: string): string {
+  return text
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/['’]/g, "")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
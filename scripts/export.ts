@@ -0,0 +1,207 @@
+/**
+ * Data Export
+ *
+ * Streams orders, customers or products to CSV, NDJSON or XLSX files with
+ * selectable dot-path columns. Rows are written as each page arrives, so
+ * large ranges never need to fit in memory.
+ */
+
+import { createWriteStream, type WriteStream } from "fs";
+import { once } from "events";
+import { extname } from "path";
+import ExcelJS from "exceljs";
+import { formatCsvRow } from "./csv.js";
+
+export type ExportFormat = "csv" | "ndjson" | "xlsx";
+
+/**
+ * Columns used when --columns is omitted.
+ */
+export const DEFAULT_COLUMNS = {
+  orders: [
+    "name", "createdAt", "email", "financialStatus", "fulfillmentStatus",
+    "totalPrice.amount", "totalPrice.currencyCode", "tags",
+  ],
+  orderLineItems: [
+    "name", "createdAt", "email", "lineItems.sku", "lineItems.title",
+    "lineItems.quantity", "lineItems.originalTotal.amount",
+  ],
+  customers: ["id", "firstName", "lastName", "email", "phone", "tags", "createdAt"],
+  products: ["id", "title", "vendor", "productType", "status", "tags"],
+} as const;
+
+export interface ExportOptions {
+  /** Target file path */
+  out: string;
+  /** Output format (default: from the file extension) */
+  format?: ExportFormat;
+  /** Dot-path columns; a "lineItems." column writes one row per line item */
+  columns: string[];
+  /** Sheet name for XLSX output */
+  sheetName?: string;
+}
+
+export interface ExportSummary {
+  out: string;
+  format: ExportFormat;
+  columns: string[];
+  /** Entities read (orders, customers or products) */
+  entities: number;
+  /** Rows written (more than entities when line items are flattened) */
+  rows: number;
+}
+
+interface RowWriter {
+  write(values: unknown[]): Promise<void>;
+  close(): Promise<void>;
+}
+
+/**
+ * Writes entities from an async source to a file.
+ *
+ * @param source - Entities, typically yielded page by page
+ * @param options - Target file, format and columns
+ */
+export async function exportRows(
+  source: AsyncIterable<Record<string, any>>,
+  options: ExportOptions
+): Promise<ExportSummary> {
+  const format = options.format ?? formatFromPath(options.out);
+  const { columns } = options;
+  const writer = await openWriter(format, options.out, columns, options.sheetName ?? "Export");
+
+  // Columns under the first array segment (e.g. "lineItems.sku") expand to one row per element
+  const expandKey = columns.find((c) => c.startsWith("lineItems."))?.split(".")[0];
+
+  let entities = 0;
+  let rows = 0;
+  try {
+    for await (const entity of source) {
+      entities++;
+      const items: unknown[] = expandKey ? (entity[expandKey] ?? []) : [undefined];
+      for (const item of items.length ? items : [undefined]) {
+        await writer.write(columns.map((column) => cellValue(entity, column, expandKey, item)));
+        rows++;
+      }
+    }
+  } finally {
+    await writer.close();
+  }
+
+  return { out: options.out, format, columns, entities, rows };
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Combines a query filter with an inclusive created_at date range in UTC.
+ *
+ * @param from - First day (YYYY-MM-DD)
+ * @param to - Last day (YYYY-MM-DD)
+ */
+export function buildOrderQuery(options: { query?: string; from?: string; to?: string }): string | undefined {
+  const parts = [options.query, utcRangeQuery(options.from, options.to)].filter(Boolean);
+  return parts.length ? parts.join(" ") : undefined;
+}
+
+/**
+ * A created_at filter covering `from` through `to` (YYYY-MM-DD, both
+ * inclusive) in UTC. Shopify reads bare dates in the shop's timezone, so
+ * the bounds are explicit timestamps, ending before the day after `to`.
+ */
+export function utcRangeQuery(from?: string, to?: string): string | undefined {
+  const parts = [
+    from && `created_at:>="${from}T00:00:00Z"`,
+    to && `created_at:<"${utcDayAfter(to)}T00:00:00Z"`,
+  ].filter(Boolean);
+  return parts.length ? parts.join(" ") : undefined;
+}
+
+/**
+ * The UTC date (YYYY-MM-DD) after `date`.
+ */
+export function utcDayAfter(date: string): string {
+  return new Date(Date.parse(date) + DAY_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * Splits a --columns option into column paths.
+ */
+export function parseColumns(columns: string): string[] {
+  return columns.split(",").map((c) => c.trim()).filter(Boolean);
+}
+
+function formatFromPath(path: string): ExportFormat {
+  const ext = extname(path).toLowerCase().slice(1);
+  if (ext === "csv" || ext === "xlsx") return ext;
+  if (ext === "ndjson" || ext === "jsonl") return "ndjson";
+  throw new Error(`Cannot infer export format from "${path}"; pass --format csv|ndjson|xlsx`);
+}
+
+/**
+ * Resolves a dot-path column to a flat cell value.
+ * Arrays of scalars (e.g. tags) are joined with ", ".
+ */
+function cellValue(entity: Record<string, any>, column: string, expandKey: string | undefined, item: unknown): unknown {
+  const [head, ...rest] = column.split(".");
+  const value = head === expandKey ? getPath(item, rest) : getPath(entity, [head, ...rest]);
+
+  if (Array.isArray(value) && value.every((v) => typeof v !== "object")) return value.join(", ");
+  return value ?? null;
+}
+
+function getPath(value: unknown, path: string[]): unknown {
+  return path.reduce<any>((current, key) => (current == null ? undefined : current[key]), value);
+}
+
+async function openWriter(format: ExportFormat, out: string, columns: string[], sheetName: string): Promise<RowWriter> {
+  const stream = createWriteStream(out);
+  // Listening from the start, so a failure (e.g. a missing directory) rejects the next write or close
+  let failure: Error | undefined;
+  stream.on("error", (error) => (failure = error));
+  await once(stream, "open");
+
+  if (format === "xlsx") {
+    const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream });
+    const sheet = workbook.addWorksheet(sheetName);
+    sheet.addRow(columns).commit();
+    return {
+      write: async (values) => {
+        if (failure) throw failure;
+        sheet.addRow(values.map((v) => (typeof v === "object" && v !== null ? JSON.stringify(v) : v))).commit();
+      },
+      close: async () => {
+        if (failure) throw failure;
+        sheet.commit();
+        await workbook.commit();
+      },
+    };
+  }
+
+  const writeChunk = async (chunk: string) => {
+    if (failure) throw failure;
+    if (!stream.write(chunk)) await once(stream, "drain");
+  };
+  const close = () => (failure ? Promise.reject(failure) : closeStream(stream));
+
+  if (format === "csv") {
+    await writeChunk(formatCsvRow(columns));
+    return {
+      write: (values) => writeChunk(formatCsvRow(values)),
+      close,
+    };
+  }
+
+  return {
+    write: (values) =>
+      writeChunk(JSON.stringify(Object.fromEntries(columns.map((c, i) => [c, values[i]]))) + "\n"),
+    close,
+  };
+}
+
+function closeStream(stream: WriteStream): Promise<void> {
+  return new Promise((resolve, reject) => {
+    stream.once("error", reject);
+    stream.end(() => resolve());
+  });
+}
@@ -0,0 +1,195 @@
+/**
+ * MCP Record/Replay Fixtures
+ *
+ * --record <dir> saves every tool call (and the tool list) as redacted JSON
+ * fixtures; --replay <dir> serves them from an in-process transport so
+ * commands run offline without starting the MCP server.
+ *
+ * Layout: <dir>/tools.json and <dir>/<tool>/<hash>.json, where the hash is
+ * of the redacted arguments. Repeated calls with the same arguments are
+ * stored in order (e.g. an order before and after an update) and replayed
+ * in that order, the last response repeating. Sibling fixture directories
+ * can share one tools.json in their parent instead (see toolsPath).
+ */
+
+import { createHash } from "crypto";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { dirname, join } from "path";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import type { CallToolResult, JSONRPCMessage, Tool } from "@modelcontextprotocol/sdk/types.js";
+
+interface Fixture {
+  tool: string;
+  args: Record<string, unknown>;
+  responses: CallToolResult[];
+}
+
+// Values under these keys are replaced wholesale
+const SECRET_KEYS = /token|secret|password|authorization|api[_-]?key/i;
+// Personal data, replaced by a stable hash so replayed lookups still match
+const PERSONAL_KEYS = new Set([
+  "email", "phone", "firstName", "lastName", "displayName",
+  "address1", "address2", "zip", "company",
+]);
+const EMAIL = /[\w.+-]+@[\w-]+(\.[\w-]+)+/g;
+
+/**
+ * Writes tool calls to a fixture directory.
+ */
+export class FixtureRecorder {
+  /** Fixtures written this session; the first call replaces any older recording */
+  private written = new Set<string>();
+
+  constructor(private readonly dir: string) {}
+
+  recordTools(tools: Tool[]): void {
+    mkdirSync(this.dir, { recursive: true });
+    writeFileSync(toolsPath(this.dir), JSON.stringify(tools, null, 2) + "\n");
+  }
+
+  recordCall(tool: string, args: Record<string, unknown>, result: CallToolResult): void {
+    const redactedArgs = redact(args) as Record<string, unknown>;
+    const path = fixturePath(this.dir, tool, redactedArgs);
+
+    const fixture: Fixture = this.written.has(path) && existsSync(path)
+      ? JSON.parse(readFileSync(path, "utf-8"))
+      : { tool, args: redactedArgs, responses: [] };
+    fixture.responses.push(redact(result) as CallToolResult);
+
+    mkdirSync(join(this.dir, tool), { recursive: true });
+    writeFileSync(path, JSON.stringify(fixture, null, 2) + "\n");
+    this.written.add(path);
+  }
+}
+
+/**
+ * An MCP transport that answers initialize, tools/list and tools/call from
+ * recorded fixtures. Calls without a fixture return a tool error naming the
+ * file that was looked for.
+ */
+export class ReplayTransport implements Transport {
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage) => void;
+
+  private served = new Map<string, number>();
+
+  constructor(private readonly dir: string) {}
+
+  async start(): Promise<void> {
+    if (!existsSync(this.dir)) throw new Error(`Replay directory ${this.dir} does not exist`);
+  }
+
+  async send(message: JSONRPCMessage): Promise<void> {
+    if (!("method" in message) || !("id" in message)) return;  // Notifications need no reply
+
+    const reply = (body: { result: unknown } | { error: { code: number; message: string } }) =>
+      queueMicrotask(() => this.onmessage?.({ jsonrpc: "2.0", id: message.id, ...body } as JSONRPCMessage));
+
+    switch (message.method) {
+      case "initialize":
+        return reply({
+          result: {
+            protocolVersion: (message.params as { protocolVersion: string }).protocolVersion,
+            capabilities: { tools: {} },
+            serverInfo: { name: "fixture-replay", version: "1.0.0" },
+          },
+        });
+      case "tools/list": {
+        const path = toolsPath(this.dir);
+        // Without a recorded list, the client skips argument checks
+        if (!existsSync(path)) return reply({ error: { code: -32601, message: "No tools.json in replay directory or its parent" } });
+        return reply({ result: { tools: JSON.parse(readFileSync(path, "utf-8")) } });
+      }
+      case "tools/call": {
+        const { name, arguments: args = {} } = message.params as { name: string; arguments?: Record<string, unknown> };
+        return reply({ result: this.replayCall(name, args) });
+      }
+      default:
+        return reply({ error: { code: -32601, message: `Replay does not support ${message.method}` } });
+    }
+  }
+
+  async close(): Promise<void> {
+    this.onclose?.();
+  }
+
+  private replayCall(tool: string, args: Record<string, unknown>): CallToolResult {
+    const path = fixturePath(this.dir, tool, redact(args) as Record<string, unknown>);
+    if (!existsSync(path)) {
+      return {
+        isError: true,
+        content: [{ type: "text", text: `No fixture recorded for ${tool} with these arguments (${path})` }],
+      };
+    }
+
+    const { responses } = JSON.parse(readFileSync(path, "utf-8")) as Fixture;
+    const index = this.served.get(path) ?? 0;
+    this.served.set(path, index + 1);
+    return responses[Math.min(index, responses.length - 1)];
+  }
+}
+
+/**
+ * Replaces secrets and personal data in a value, deterministically, so the
+ * same input always redacts to the same output.
+ */
+export function redact(value: unknown, key?: string): unknown {
+  if (typeof value === "string") {
+    if (key && SECRET_KEYS.test(key)) return "[REDACTED]";
+    if (key && PERSONAL_KEYS.has(key)) {
+      return key === "email" ? redactEmail(value) : `redacted-${digest(value)}`;
+    }
+    // Tool results wrap JSON in text content; redact inside it too
+    if (key === "text" && /^[[{]/.test(value.trim())) {
+      try {
+        return JSON.stringify(redact(JSON.parse(value)));
+      } catch {
+        // Not JSON after all
+      }
+    }
+    return value.replace(EMAIL, redactEmail);
+  }
+  if (Array.isArray(value)) return value.map((item) => redact(item, key));
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, redact(v, k)]));
+  }
+  return value;
+}
+
+function redactEmail(email: string): string {
+  return `${digest(email.toLowerCase())}@example.com`;
+}
+
+function digest(value: string, length = 10): string {
+  return createHash("sha256").update(value).digest("hex").slice(0, length);
+}
+
+/**
+ * The tool list for a fixture directory: its own tools.json, or else the one
+ * its parent shares between all the directories in it.
+ */
+function toolsPath(dir: string): string {
+  const own = join(dir, "tools.json");
+  const shared = join(dirname(dir), "tools.json");
+  return existsSync(own) || !existsSync(shared) ? own : shared;
+}
+
+function fixturePath(dir: string, tool: string, args: Record<string, unknown>): string {
+  return join(dir, tool, `${digest(stableStringify(args), 16)}.json`);
+}
+
+/**
+ * JSON with sorted keys and undefined values dropped, so equal arguments hash equally.
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
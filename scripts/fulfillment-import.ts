@@ -0,0 +1,198 @@
+/**
+ * Carrier Manifest Import
+ *
+ * Turns end-of-day carrier manifests (CSV) into fulfillments: rows are
+ * mapped through a per-carrier column mapping, grouped by order into one
+ * fulfillment with lineItems, and already-fulfilled orders are skipped.
+ * create-fulfillment takes one tracking number, so orders shipped in several
+ * parcels are fulfilled with the first and reported as partial.
+ */
+
+import { readFileSync } from "fs";
+import { parseCsv, parseCsvRecordLines } from "./csv.js";
+import type { ManifestMapping } from "./config.js";
+import type { ShopifyMCPClient } from "./mcp-client.js";
+
+/**
+ * Built-in column mappings (UPS WorldShip and Royal Mail Click & Drop exports).
+ * Override or add carriers via manifestMappings in config.json.
+ */
+export const DEFAULT_MANIFEST_MAPPINGS: Record<string, ManifestMapping> = {
+  ups: {
+    carrier: "UPS",
+    orderNumber: "Reference 1",
+    trackingNumber: "Tracking Number",
+    sku: "Reference 2",
+    quantity: "Quantity",
+  },
+  "royal-mail": {
+    carrier: "Royal Mail",
+    orderNumber: "Order reference",
+    trackingNumber: "Tracking number",
+    sku: "SKU",
+    quantity: "Quantity",
+  },
+};
+
+export interface ManifestGroup {
+  orderNumber: string;
+  trackingNumber: string;
+  /** Manifest line numbers (header is line 1) */
+  rows: number[];
+  lineItems?: Array<{ sku: string; quantity: number }>;
+  /** Further parcel tracking numbers for the same order, not sent with the fulfillment */
+  additionalTrackingNumbers?: string[];
+}
+
+export interface ImportReport {
+  file: string;
+  carrier: string;
+  dryRun: boolean;
+  totals: { rows: number; fulfilled: number; partial: number; skipped: number; failed: number };
+  fulfilled: Array<ManifestGroup & { result: unknown }>;
+  /** Fulfilled, but further parcels' tracking numbers still need adding */
+  partial: Array<ManifestGroup & { result: unknown; reason: string }>;
+  skipped: Array<ManifestGroup & { reason: string }>;
+  failed: Array<Partial<ManifestGroup> & { rows: number[]; reason: string }>;
+}
+
+/**
+ * Imports fulfillments from a carrier manifest.
+ *
+ * @param client - Shopify client
+ * @param options - Manifest file, carrier key and notification flag
+ * @returns Reconciliation report of fulfilled, skipped and failed rows
+ * @throws {Error} If the carrier has no mapping or mapped columns are missing
+ */
+export async function importFulfillments(
+  client: ShopifyMCPClient,
+  options: { file: string; carrier: string; notifyCustomer?: boolean }
+): Promise<ImportReport> {
+  const mappings = { ...DEFAULT_MANIFEST_MAPPINGS, ...client.getPluginConfig().manifestMappings };
+  const mapping = mappings[options.carrier];
+  if (!mapping) {
+    throw new Error(`No manifest mapping for carrier "${options.carrier}" (available: ${Object.keys(mappings).join(", ")})`);
+  }
+
+  const text = readFileSync(options.file, "utf-8");
+  assertColumns(parseCsv(text)[0] ?? [], mapping);
+  const records = parseCsvRecordLines(text);
+  const report: ImportReport = {
+    file: options.file,
+    carrier: mapping.carrier,
+    dryRun: client.isDryRunEnabled(),
+    totals: { rows: records.length, fulfilled: 0, partial: 0, skipped: 0, failed: 0 },
+    fulfilled: [],
+    partial: [],
+    skipped: [],
+    failed: [],
+  };
+
+  const groups = groupRows(records, mapping, report);
+
+  for (const group of groups) {
+    try {
+      const { orders } = await client.findOrder(group.orderNumber);
+      const order = orders[0];
+      if (!order) {
+        report.failed.push({ ...group, reason: `Order ${group.orderNumber} not found` });
+        continue;
+      }
+
+      const alreadyTracked = order.fulfillments.some((f) =>
+        f.trackingInfo.some((t) => t.number === group.trackingNumber)
+      );
+      if (alreadyTracked) {
+        report.skipped.push({ ...group, reason: `Tracking ${group.trackingNumber} already on ${order.name}` });
+        continue;
+      }
+      if (order.fulfillmentStatus?.toUpperCase() === "FULFILLED") {
+        report.skipped.push({ ...group, reason: `Order ${order.name} is already fulfilled` });
+        continue;
+      }
+
+      const result = await client.createFulfillment(group.orderNumber, group.trackingNumber, {
+        trackingCompany: mapping.carrier,
+        notifyCustomer: options.notifyCustomer,
+        lineItems: group.lineItems,
+        // Already found above; saves a second lookup (and a possible recent-orders scan)
+        order,
+      });
+      if (group.additionalTrackingNumbers) {
+        const extra = group.additionalTrackingNumbers.join(", ");
+        report.partial.push({
+          ...group,
+          result,
+          reason: `Fulfilled with ${group.trackingNumber} only; add parcel tracking ${extra} to the fulfillment in Shopify admin`,
+        });
+      } else {
+        report.fulfilled.push({ ...group, result });
+      }
+    } catch (error) {
+      report.failed.push({ ...group, reason: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  report.totals.fulfilled = countRows(report.fulfilled);
+  report.totals.partial = countRows(report.partial);
+  report.totals.skipped = countRows(report.skipped);
+  report.totals.failed = countRows(report.failed);
+  return report;
+}
+
+/**
+ * Groups manifest rows by order, summing quantities per SKU.
+ * Rows missing an order or tracking number are recorded as failed.
+ */
+function groupRows(
+  records: Array<{ line: number; record: Record<string, string> }>,
+  mapping: ManifestMapping,
+  report: ImportReport
+): ManifestGroup[] {
+  const groups = new Map<string, ManifestGroup & { skus: Map<string, number> }>();
+
+  records.forEach(({ line, record }) => {
+    const orderNumber = record[mapping.orderNumber]?.replace(/^#/, "");
+    const trackingNumber = record[mapping.trackingNumber]?.replace(/\s+/g, "");
+
+    if (!orderNumber || !trackingNumber) {
+      report.failed.push({ rows: [line], reason: "Missing order number or tracking number" });
+      return;
+    }
+
+    let group = groups.get(orderNumber);
+    if (!group) {
+      group = { orderNumber, trackingNumber, rows: [], skus: new Map() };
+      groups.set(orderNumber, group);
+    }
+    group.rows.push(line);
+
+    if (trackingNumber !== group.trackingNumber && !group.additionalTrackingNumbers?.includes(trackingNumber)) {
+      (group.additionalTrackingNumbers ??= []).push(trackingNumber);
+    }
+
+    const sku = mapping.sku ? record[mapping.sku] : undefined;
+    if (sku) {
+      const quantity = mapping.quantity ? Number(record[mapping.quantity] ?? 1) : 1;
+      group.skus.set(sku, (group.skus.get(sku) ?? 0) + (Number.isFinite(quantity) ? quantity : 1));
+    }
+  });
+
+  return [...groups.values()].map(({ skus, ...group }) => ({
+    ...group,
+    lineItems: skus.size ? [...skus].map(([sku, quantity]) => ({ sku, quantity })) : undefined,
+  }));
+}
+
+function assertColumns(header: string[], mapping: ManifestMapping): void {
+  const columns = new Set(header.map((h) => h.trim()));
+  const missing = [mapping.orderNumber, mapping.trackingNumber, mapping.sku, mapping.quantity]
+    .filter((column): column is string => !!column && !columns.has(column));
+  if (missing.length) {
+    throw new Error(`Manifest is missing ${mapping.carrier} columns: "${missing.join('", "')}"`);
+  }
+}
+
+function countRows(entries: Array<{ rows: number[] }>): number {
+  return entries.reduce((sum, entry) => sum + entry.rows.length, 0);
+}
@@ -0,0 +1,109 @@
+/**
+ * Global CLI Options
+ *
+ * Flags accepted by every command. They are pulled out of argv before
+ * runCli parses the per-command schema.
+ */
+
+import { OUTPUT_FORMATS, type OutputFormat, type OutputOptions } from "./output.js";
+
+export interface GlobalOptions {
+  /** Store profile name */
+  store?: string;
+  /** Preview mutations without sending them */
+  dryRun?: boolean;
+  /** Tool call timeout and retry count */
+  retry?: { timeoutMs?: number; retries?: number };
+  /** Directory to save tool-call fixtures to */
+  record?: string;
+  /** Directory to replay tool-call fixtures from */
+  replay?: string;
+}
+
+/**
+ * Removes global flags from argv (in place) and returns their values.
+ *
+ * Supports both `--flag value` and `--flag=value`.
+ *
+ * @param argv - Usually process.argv
+ */
+export function extractGlobalOptions(argv: string[]): GlobalOptions {
+  const options: GlobalOptions = {};
+
+  for (let i = 2; i < argv.length; ) {
+    const [flag, inline] = argv[i].split(/=(.*)/s, 2);
+
+    switch (flag) {
+      case "--store": {
+        const value = inline ?? argv[i + 1];
+        if (!value || value.startsWith("--")) throw new Error("--store requires a store name");
+        options.store = value;
+        argv.splice(i, inline === undefined ? 2 : 1);
+        break;
+      }
+      case "--record":
+      case "--replay": {
+        const value = inline ?? argv[i + 1];
+        if (!value || value.startsWith("--")) throw new Error(`${flag} requires a directory`);
+        options[flag === "--record" ? "record" : "replay"] = value;
+        argv.splice(i, inline === undefined ? 2 : 1);
+        break;
+      }
+      case "--timeout":
+      case "--retries": {
+        const value = Number(inline ?? argv[i + 1]);
+        if (!Number.isFinite(value) || value < 0) throw new Error(`${flag} requires a non-negative number`);
+        options.retry = {
+          ...options.retry,
+          ...(flag === "--timeout" ? { timeoutMs: value * 1000 } : { retries: Math.floor(value) }),
+        };
+        argv.splice(i, inline === undefined ? 2 : 1);
+        break;
+      }
+      case "--dry-run":
+        options.dryRun = inline !== "false";
+        argv.splice(i, 1);
+        break;
+      default:
+        i++;
+    }
+  }
+
+  if (options.record && options.replay) throw new Error("--record and --replay can't be combined");
+  return options;
+}
+
+/**
+ * Removes --format and --fields from argv (in place) and returns their
+ * values. Options the command defines itself are left for it, so the
+ * export commands keep their own --format.
+ *
+ * @param argv - Usually process.argv
+ * @param commandOptions - Option names in the command's schema
+ */
+export function extractOutputOptions(argv: string[], commandOptions: string[] = []): OutputOptions {
+  const options: OutputOptions = {};
+
+  for (let i = 3; i < argv.length; ) {
+    const [flag, inline] = argv[i].split(/=(.*)/s, 2);
+    const name = flag.slice(2);
+    if ((name !== "format" && name !== "fields") || !flag.startsWith("--") || commandOptions.includes(name)) {
+      i++;
+      continue;
+    }
+
+    const value = inline ?? argv[i + 1];
+    if (!value || value.startsWith("--")) throw new Error(`${flag} requires a value`);
+    if (name === "format") {
+      if (!OUTPUT_FORMATS.includes(value as OutputFormat)) {
+        throw new Error(`--format must be one of ${OUTPUT_FORMATS.join(", ")}`);
+      }
+      options.format = value as OutputFormat;
+    } else {
+      options.fields = value.split(",").map((f) => f.trim()).filter(Boolean);
+    }
+    argv.splice(i, inline === undefined ? 2 : 1);
+  }
+
+  return options;
+}
@@ -3,45 +3,211 @@
  *
  * Wrapper client for Shopify GraphQL Admin API via MCP server.
  * Handles orders, customers, and products.
- * Configuration from config.json with store domain and API credentials.
+ * Configuration from config.json, with one profile per store.
  */
 
+import { EventEmitter } from "events";
+import { join } from "path";
 import { Client } from "@modelcontextprotocol/sdk/client/index.js";
 import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
-import { readFileSync } from "fs";
-import { fileURLToPath } from "url";
-import { dirname, join } from "path";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import type { CallToolResult, Tool } from "@modelcontextprotocol/sdk/types.js";
 import { PluginCache, TTL, createCacheKey } from "@local/plugin-cache";
+import { AuditLog, type AuditEntry, type AuditFilter } from "./audit-log.js";
+import {
+  CacheIndex,
+  DEFAULT_CACHE_INDEX_DIR,
+  entityRef,
+  orderNumberRef,
+  type EntityType,
+  type ListScope,
+} from "./cache-index.js";
+import { CarrierRegistry } from "./carriers.js";
+import { FixtureRecorder, ReplayTransport } from "./fixtures.js";
+import { checkArguments, isBlocking } from "./tool-schemas.js";
+import {
+  DEFAULT_RETRY_POLICY,
+  ShopifyToolError,
+  classifyToolError,
+  retryDelay,
+  type RetryPolicy,
+} from "./tool-errors.js";
+import { applyTagEdit, applyTagOperation, type TagChange, type TagOperation } from "./tags.js";
+import { collect, paginate, type IterateOptions, type PageCheckpoint } from "./pagination.js";
+import { diffFields, type DryRunResult } from "./diff.js";
+import { loadConfig, resolveStore, type PluginConfig, type ResolvedStore } from "./config.js";
+import {
+  CustomerPageSchema,
+  CustomerResponseSchema,
+  OrderPageSchema,
+  OrderResponseSchema,
+  ProductPageSchema,
+  ProductResponseSchema,
+  parseResponse,
+  type Customer,
+  type CustomerPage,
+  type Order,
+  type OrderPage,
+  type Product,
+  type ProductPage,
+} from "./schemas.js";
 
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = dirname(__filename);
+export * from "./schemas.js";
+export type { AuditEntry, AuditFilter } from "./audit-log.js";
+export type { TagChange, TagOperation } from "./tags.js";
+export { isDryRun, type DryRunResult, type FieldChange } from "./diff.js";
+export type { IterateOptions, PageCheckpoint } from "./pagination.js";
+export { ShopifyToolError, type RetryPolicy, type ToolErrorCode } from "./tool-errors.js";
 
-interface MCPConfig {
-  mcpServer: {
-    command: string;
-    args: string[];
-    env?: Record<string, string>;
-  };
-  storeDomain: string;
+/**
+ * Result of fulfillment and return mutations. These tools return
+ * operation-specific payloads, so only the object shape is guaranteed.
+ */
+export type MutationResult = Record<string, any>;
+
+/**
+ * Order list filters shared by getOrders, iterateOrders and getAllOrders.
+ */
+export interface OrderFilters {
+  status?: string;
+  sortKey?: string;
+  reverse?: boolean;
+  query?: string;
 }
 
-// Initialize cache with namespace
-const cache = new PluginCache({
-  namespace: "shopify-order-manager",
-  defaultTTL: TTL.FIVE_MINUTES,
-});
+export type TagTarget = "order" | "customer" | "product";
+
+export type TagUpdate = TagChange & { type: TagTarget; id: string; result: Order | Customer | Product | DryRunResult | null };
+
+/**
+ * Fields update-order/update-customer can revert from the audit journal.
+ */
+const REVERSIBLE_FIELDS = ["tags", "note", "email", "phone", "firstName", "lastName"] as const;
+
+/**
+ * MCP tools the client calls, with the CLI commands that depend on each.
+ * Optional tools are missing from some servers; only their commands fail.
+ */
+export const CLIENT_TOOLS: Record<string, { commands: string[]; optional?: boolean }> = {
+  "get-products": { commands: ["get-products", "get-all-products", "export-products"] },
+  "get-product-by-id": { commands: ["get-product"] },
+  "createProduct": { commands: ["create-product"] },
+  "update-product": { commands: ["tag-add --type product", "tag-remove --type product", "tag-set --type product"], optional: true },
+  "get-customers": { commands: ["get-customers", "get-all-customers", "export-customers", "update-customer --dry-run", "find-duplicate-customers"] },
+  "update-customer": { commands: ["update-customer", "bulk-update", "undo", "customer-insights --applyTags"] },
+  "get-customer-orders": { commands: ["get-customer-orders", "find-duplicate-customers"] },
+  "get-orders": { commands: ["get-orders", "get-all-orders", "find-order", "export-orders", "import-fulfillments", "sales-report", "customer-insights", "order-timeline --number"] },
+  "get-order-by-id": { commands: ["get-order", "find-order", "order-timeline"] },
+  "update-order": { commands: ["update-order", "bulk-update", "undo"] },
+  "update-fulfillment-tracking": { commands: ["update-fulfillment-tracking"] },
+  "create-fulfillment": { commands: ["create-fulfillment", "import-fulfillments"] },
+  "create-return": { commands: ["create-return"] },
+  "create-reverse-delivery": { commands: ["create-reverse-delivery"] },
+};
+
+/**
+ * Mutations that set absolute values, so repeating one after an ambiguous
+ * failure (timeout, dropped connection) can't apply it twice. Creates are
+ * excluded since a repeated create-fulfillment ships twice, and tracking
+ * updates since they can notify the customer again.
+ */
+const IDEMPOTENT_MUTATIONS = new Set(["update-order", "update-customer", "update-product"]);
+
+/**
+ * Connection lifecycle and argument-check events emitted by ShopifyMCPClient.
+ */
+export interface ClientEvents {
+  /** Starting the MCP server; `reconnect` is true after an earlier connection dropped */
+  connecting: [{ attempt: number; reconnect: boolean }];
+  connected: [{ attempt: number; reconnect: boolean }];
+  /** A start attempt failed; `delayMs` is set when another attempt follows */
+  "connect-failed": [{ attempt: number; error: string; delayMs?: number }];
+  /** The connection ended; `expected` is false when the server exited on its own */
+  disconnected: [{ reason: string; expected: boolean }];
+  /** An argument the tool's inputSchema doesn't list was sent anyway (see strictArguments) */
+  "argument-warning": [{ tool: string; field: string; message: string }];
+  /** Audit journal lines that couldn't be parsed (e.g. cut short by a crash) were skipped */
+  "journal-warning": [{ path: string; lines: number[] }];
+}
+
+// An event name with its listener, so on()/off() check each pair without casts
+type ClientEventSubscription = {
+  [E in keyof ClientEvents]: [event: E, listener: (...args: ClientEvents[E]) => void];
+}[keyof ClientEvents];
+
+type OrderReference =
+  | { kind: "id"; gid: string }
+  | { kind: "name"; number: string; name: string }
+  | { kind: "email"; email: string };
+
+export interface ShopifyClientOptions {
+  /** Store profile name from config.json (default: SHOPIFY_STORE or defaultStore) */
+  store?: string;
+  /** Preview mutations as field-by-field diffs instead of sending them */
+  dryRun?: boolean;
+  /** Path of the mutation journal (default: data/audit-log.jsonl in the plugin root) */
+  auditLogPath?: string;
+  /** Directory of the per-store cache entity index (default: data/cache-index in the plugin root) */
+  cacheIndexDir?: string;
+  /** Retry and timeout settings for tool calls */
+  retry?: Partial<RetryPolicy>;
+  /** Refuse arguments a tool's inputSchema doesn't list, instead of warning */
+  strictArguments?: boolean;
+  /** Save every tool call as redacted fixtures in this directory */
+  record?: string;
+  /** Serve tool calls from fixtures in this directory instead of starting the MCP server */
+  replay?: string;
+}
 
 export class ShopifyMCPClient {
   private client: Client | null = null;
-  private transport: StdioClientTransport | null = null;
-  private config: MCPConfig;
+  private transport: Transport | null = null;
+  private pluginConfig: PluginConfig;
+  private config: ResolvedStore;
+  private cache: PluginCache;
+  private cacheIndex: CacheIndex;
   private connected: boolean = false;
+  private connecting: Promise<void> | null = null;
+  private hasConnected: boolean = false;
+  private lastTransportError: Error | null = null;
+  private events = new EventEmitter<ClientEvents>();
   private cacheDisabled: boolean = false;
+  private dryRun: boolean;
+  private audit: AuditLog;
+  private carriers: CarrierRegistry;
+  private retryPolicy: RetryPolicy;
+  private strictArguments: boolean;
+  private recorder: FixtureRecorder | null;
+  private replayDir: string | undefined;
+  /** Tool definitions by name, listed once per connection */
+  private toolDefinitions: Map<string, Tool> | null = null;
+
+  constructor(options: ShopifyClientOptions = {}) {
+    this.dryRun = options.dryRun ?? false;
+    this.audit = new AuditLog(options.auditLogPath, (lines, path) => this.events.emit("journal-warning", { path, lines }));
+    this.pluginConfig = loadConfig();
+    this.config = resolveStore(this.pluginConfig, options.store);
+    this.carriers = new CarrierRegistry(this.pluginConfig.carriers);
+    this.retryPolicy = { ...DEFAULT_RETRY_POLICY, ...options.retry };
+    this.strictArguments = options.strictArguments ?? false;
+    this.recorder = options.record ? new FixtureRecorder(options.record) : null;
+    this.replayDir = options.replay;
 
-  constructor() {
-    // When compiled, __dirname is dist/, so look in parent for config.json
-    const configPath = join(__dirname, "..", "config.json");
-    this.config = JSON.parse(readFileSync(configPath, "utf-8"));
+    // Namespace per store so one shop's data is never served for another
+    this.cache = new PluginCache({
+      namespace: `shopify-order-manager-${this.config.name}`,
+      defaultTTL: TTL.FIVE_MINUTES,
+    });
+    this.cacheIndex = new CacheIndex(
+      join(options.cacheIndexDir ?? DEFAULT_CACHE_INDEX_DIR, this.config.name)
+    );
+    if (!this.cacheIndex.loaded) {
+      // Entries cached without an index can't be invalidated precisely
+      this.cache.clear();
+      this.cacheIndex.clear();
+    }
+    // Recording needs every call to reach the server; replayed data must not enter the real cache
+    if (this.recorder || this.replayDir) this.disableCache();
   }
 
   // ============================================
@@ -50,41 +216,173 @@ export class ShopifyMCPClient {
 
   /**
    * Establishes connection to the MCP server.
-   * Called automatically by other methods when needed.
+   * Called automatically by other methods when needed, including after the
+   * server process exits; start failures are retried with backoff.
+   *
+   * @throws {ShopifyToolError} CONNECTION if the server can't be started
    */
   async connect(): Promise<void> {
     if (this.connected) return;
+    // Concurrent callers share one start attempt rather than spawning several servers
+    this.connecting ??= this.establish().finally(() => {
+      this.connecting = null;
+    });
+    return this.connecting;
+  }
+
+  /**
+   * Disconnects from the MCP server and waits for its process to exit.
+   */
+  async disconnect(): Promise<void> {
+    await this.connecting?.catch(() => {});
+    const wasConnected = this.connected;
+    await this.closeTransport();
+    if (wasConnected) this.events.emit("disconnected", { reason: "disconnect() called", expected: true });
+  }
+
+  /**
+   * Whether a connection to the MCP server is currently open.
+   */
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  /**
+   * Subscribes to connection lifecycle events.
+   *
+   * @example
+   * client.on("disconnected", ({ reason, expected }) => { if (!expected) console.error(reason); });
+   */
+  on<E extends keyof ClientEvents>(event: E, listener: (...args: ClientEvents[E]) => void): this;
+  on(...[event, listener]: ClientEventSubscription): this {
+    this.events.on(event, listener);
+    return this;
+  }
 
+  /**
+   * Removes a listener added with on().
+   */
+  off<E extends keyof ClientEvents>(event: E, listener: (...args: ClientEvents[E]) => void): this;
+  off(...[event, listener]: ClientEventSubscription): this {
+    this.events.off(event, listener);
+    return this;
+  }
+
+  private async establish(): Promise<void> {
+    const reconnect = this.hasConnected;
+
+    for (let attempt = 1; ; attempt++) {
+      this.events.emit("connecting", { attempt, reconnect });
+      try {
+        await this.openTransport();
+        this.hasConnected = true;
+        this.events.emit("connected", { attempt, reconnect });
+        return;
+      } catch (caught) {
+        await this.closeTransport();
+        const error = caught instanceof Error ? caught.message : String(caught);
+
+        if (attempt > this.retryPolicy.retries) {
+          this.events.emit("connect-failed", { attempt, error });
+          throw new ShopifyToolError("CONNECTION", "connect",
+            `could not start MCP server "${this.config.mcpServer.command}" after ${attempt} attempts: ${error}`);
+        }
+        const delayMs = retryDelay(attempt, this.retryPolicy);
+        this.events.emit("connect-failed", { attempt, error, delayMs });
+        await sleep(delayMs);
+      }
+    }
+  }
+
+  private async openTransport(): Promise<void> {
     const env = {
       ...process.env,
       ...this.config.mcpServer.env,
     };
 
-    this.transport = new StdioClientTransport({
-      command: this.config.mcpServer.command,
-      args: this.config.mcpServer.args,
-      env: env as Record<string, string>,
-    });
+    const transport = this.replayDir
+      ? new ReplayTransport(this.replayDir)
+      : new StdioClientTransport({
+          command: this.config.mcpServer.command,
+          args: this.config.mcpServer.args,
+          env: env as Record<string, string>,
+        });
 
-    this.client = new Client(
+    const client = new Client(
       { name: "shopify-cli", version: "1.0.0" },
       { capabilities: {} }
     );
 
-    await this.client.connect(this.transport);
+    // Set before connecting so a server that dies during startup is noticed
+    client.onerror = (error) => {
+      this.lastTransportError = error;
+    };
+    client.onclose = () => this.handleClose(client);
+
+    this.client = client;
+    this.transport = transport;
+    this.lastTransportError = null;
+    process.once("exit", this.killServer);
+
+    await client.connect(transport, { timeout: this.retryPolicy.timeoutMs });
     this.connected = true;
   }
 
   /**
-   * Disconnects from the MCP server.
+   * Handles the server process exiting or its pipes closing. In-flight calls
+   * fail with a connection error; the next call starts a new server.
    */
-  async disconnect(): Promise<void> {
-    if (this.client && this.connected) {
-      await this.client.close();
-      this.connected = false;
+  private handleClose(client: Client): void {
+    if (client !== this.client) return;  // Already closed by disconnect()
+
+    const wasConnected = this.connected;
+    this.client = null;
+    this.transport = null;
+    this.connected = false;
+    this.toolDefinitions = null;  // A restarted server may be a different version
+    process.off("exit", this.killServer);
+
+    if (wasConnected) {
+      this.events.emit("disconnected", {
+        reason: this.lastTransportError?.message ?? "MCP server exited",
+        expected: false,
+      });
+    }
+  }
+
+  private async closeTransport(): Promise<void> {
+    const client = this.client;
+    const transport = this.transport;
+    this.client = null;
+    this.transport = null;
+    this.connected = false;
+    this.toolDefinitions = null;
+
+    // Client.close() closes the transport, which stops the server (SIGTERM, then SIGKILL)
+    try {
+      if (client) await client.close();
+      else await transport?.close();
+    } catch {
+      // Already closed
+    } finally {
+      process.off("exit", this.killServer);
     }
   }
 
+  /**
+   * Last resort when the CLI exits without disconnect(): don't leave the server running.
+   */
+  private killServer = (): void => {
+    const pid = this.transport instanceof StdioClientTransport ? this.transport.pid : null;
+    if (pid) {
+      try {
+        process.kill(pid);
+      } catch {
+        // Already gone
+      }
+    }
+  };
+
   // ============================================
   // CACHE CONTROL
   // ============================================
@@ -94,7 +392,7 @@ export class ShopifyMCPClient {
    */
   disableCache(): void {
     this.cacheDisabled = true;
-    cache.disable();
+    this.cache.disable();
   }
 
   /**
@@ -102,14 +400,14 @@ export class ShopifyMCPClient {
    */
   enableCache(): void {
     this.cacheDisabled = false;
-    cache.enable();
+    this.cache.enable();
   }
 
   /**
    * Returns cache statistics including hit/miss counts.
    */
   getCacheStats() {
-    return cache.getStats();
+    return this.cache.getStats();
   }
 
   /**
@@ -117,7 +415,8 @@ export class ShopifyMCPClient {
    * @returns Number of cache entries cleared
    */
   clearCache(): number {
-    return cache.clear();
+    this.cacheIndex.clear();
+    return this.cache.clear();
   }
 
   /**
@@ -125,7 +424,39 @@ export class ShopifyMCPClient {
    * @param key - The cache key to invalidate
    */
   invalidateCacheKey(key: string): boolean {
-    return cache.invalidate(key);
+    this.cacheIndex.forget([key]);
+    return this.cache.invalidate(key);
+  }
+
+  /**
+   * Reads through the cache and records which entities the response references.
+   */
+  private async cached<T>(
+    key: string,
+    ttl: number,
+    fetch: () => Promise<T>,
+    scope: { refs?: string[]; list?: ListScope } = {}
+  ): Promise<T> {
+    // Recorded only when fetched; a cache hit's entry is already indexed
+    return this.cache.getOrFetch(key, async () => {
+      const value = await fetch();
+      if (!this.cacheDisabled) this.cacheIndex.record(key, value, { ttl, ...scope });
+      return value;
+    }, { ttl, bypassCache: this.cacheDisabled });
+  }
+
+  /**
+   * Invalidates cached entries that reference the changed entities, plus list
+   * queries of the same type whose membership may have changed: filtered
+   * lists after an update, every list after a create.
+   *
+   * @returns Number of entries invalidated
+   */
+  private invalidateEntities(type: EntityType, refs: string[], options: { created?: boolean } = {}): number {
+    const keys = this.cacheIndex.match(refs, { type, filteredOnly: !options.created });
+    for (const key of keys) this.cache.invalidate(key);
+    this.cacheIndex.forget(keys);
+    return keys.length;
   }
 
   // ============================================
@@ -136,28 +467,83 @@ export class ShopifyMCPClient {
    * Lists available MCP tools.
    * @returns Array of tool definitions
    */
-  async listTools(): Promise<any[]> {
+  async listTools(): Promise<Tool[]> {
     await this.connect();
     const result = await this.client!.listTools();
+    this.recorder?.recordTools(result.tools);
+    this.toolDefinitions = new Map(result.tools.map((tool) => [tool.name, tool]));
     return result.tools;
   }
 
+  /**
+   * Lists tools the client uses that the server doesn't provide.
+   *
+   * @returns Missing tools with the CLI commands they break
+   */
+  async getMissingTools(): Promise<Array<{ tool: string; commands: string[]; optional: boolean }>> {
+    const available = new Set((await this.listTools()).map((tool) => tool.name));
+    return Object.entries(CLIENT_TOOLS)
+      .filter(([tool]) => !available.has(tool))
+      .map(([tool, { commands, optional }]) => ({ tool, commands, optional: optional ?? false }));
+  }
+
   /**
    * Calls an MCP tool with arguments.
+   *
+   * Throttled calls are retried with backoff, waiting for Shopify's cost
+   * bucket to refill when the error reports it. Transient failures and
+   * timeouts (including the server process exiting mid-call, after which
+   * it is restarted) are retried only for reads and idempotent updates;
+   * other mutations may already have been applied.
+   *
+   * Arguments are checked against the tool's inputSchema first: calls to
+   * tools the server lacks fail with UNSUPPORTED, and missing or mistyped
+   * arguments with VALIDATION, without reaching the server.
+   *
    * @param name - Tool name
    * @param args - Tool arguments
-   * @returns Parsed tool response
-   * @throws {Error} If tool call fails
+   * @returns Parsed tool response (unvalidated; see parseResponse)
+   * @throws {ShopifyToolError} If the call fails, with a code such as THROTTLED, AUTH or NOT_FOUND
    */
-  async callTool(name: string, args: Record<string, any>): Promise<any> {
+  async callTool(name: string, args: Record<string, any>): Promise<unknown> {
+    const retrySafe = name.startsWith("get-") || IDEMPOTENT_MUTATIONS.has(name);
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.callToolOnce(name, args);
+      } catch (caught) {
+        let error = classifyToolError(name, caught);
+        // Throttled requests are rejected before they run, so any tool can repeat them
+        const canRetry = error.retryable && (retrySafe || error.code === "THROTTLED");
+
+        if (error.retryable && !canRetry) {
+          error = new ShopifyToolError(error.code, name,
+            `${error.detail} (not retried: the change may have been applied; check before re-running)`);
+        }
+        error.attempts = attempt;
+        if (!canRetry || attempt > this.retryPolicy.retries) throw error;
+
+        await sleep(retryDelay(attempt, this.retryPolicy, error.retryAfterMs));
+      }
+    }
+  }
+
+  /**
+   * Makes a single tool call with the configured timeout.
+   */
+  private async callToolOnce(name: string, args: Record<string, any>): Promise<unknown> {
     await this.connect();
+    await this.checkToolCall(name, args);
 
-    const result = await this.client!.callTool({ name, arguments: args });
+    const result = (await this.client!.callTool({ name, arguments: args }, undefined, {
+      timeout: this.retryPolicy.timeoutMs,
+    })) as CallToolResult;
+    this.recorder?.recordCall(name, args, result);
     const content = result.content as Array<{ type: string; text?: string }>;
 
     if (result.isError) {
       const errorContent = content.find((c) => c.type === "text");
-      throw new Error(errorContent?.text || "Tool call failed");
+      throw classifyToolError(name, errorContent?.text || "Tool call failed");
     }
 
     const textContent = content.find((c) => c.type === "text");
@@ -172,6 +558,38 @@ export class ShopifyMCPClient {
     return content;
   }
 
+  /**
+   * Refuses calls to tools the server lacks or with arguments its schema rejects.
+   * Calls go unchecked if the server can't list its tools.
+   */
+  private async checkToolCall(name: string, args: Record<string, any>): Promise<void> {
+    if (!this.toolDefinitions) {
+      try {
+        await this.listTools();
+      } catch {
+        return;
+      }
+    }
+
+    const tool = this.toolDefinitions!.get(name);
+    if (!tool) {
+      throw new ShopifyToolError("UNSUPPORTED", name,
+        "unsupported by this MCP server version (run doctor to see which commands are affected)");
+    }
+
+    const issues = checkArguments(tool.inputSchema, args);
+    const blocking = issues.filter((issue) => isBlocking(issue, tool.inputSchema, this.strictArguments));
+    for (const issue of issues) {
+      if (!blocking.includes(issue)) {
+        this.events.emit("argument-warning", { tool: name, field: issue.field, message: issue.message });
+      }
+    }
+    if (blocking.length) {
+      throw new ShopifyToolError("VALIDATION", name,
+        `arguments rejected before sending: ${blocking.map((issue) => issue.message).join("; ")}`);
+    }
+  }
+
   // ============================================
   // PRODUCT OPERATIONS
   // ============================================
@@ -182,46 +600,70 @@ export class ShopifyMCPClient {
    * @param options - Filter options
    * @param options.searchTitle - Search by title
    * @param options.limit - Maximum products to return
-   * @returns Array of product objects
+   * @param options.after - Pagination cursor
+   * @returns Products with pagination info
+   * @throws {ResponseValidationError} If the response shape is unexpected
    *
    * @cached TTL: 1 hour
    *
    * @example
-   * const products = await client.getProducts({ searchTitle: "Product A" });
+   * const { products } = await client.getProducts({ searchTitle: "Product A" });
    */
-  async getProducts(options?: { searchTitle?: string; limit?: number }): Promise<any> {
+  async getProducts(options?: { searchTitle?: string; limit?: number; after?: string }): Promise<ProductPage> {
     const cacheKey = createCacheKey("products", {
       search: options?.searchTitle,
       limit: options?.limit,
+      after: options?.after,
     });
 
-    return cache.getOrFetch(
+    return this.cached(
       cacheKey,
+      TTL.HOUR,
       async () => {
         const args: Record<string, any> = {};
         if (options?.searchTitle) args.searchTitle = options.searchTitle;
         if (options?.limit) args.limit = options.limit;
-        return this.callTool("get-products", args);
+        if (options?.after) args.after = options.after;
+        const raw = await this.callTool("get-products", args);
+        return parseResponse("get-products", ProductPageSchema, raw);
       },
-      { ttl: TTL.HOUR, bypassCache: this.cacheDisabled }
+      { list: { type: "product", filtered: !!options?.searchTitle } }
     );
   }
 
+  /**
+   * Iterates over all matching products, fetching pages lazily.
+   *
+   * @param options - Search and iteration options (see iterateOrders)
+   */
+  iterateProducts(options: { searchTitle?: string } & IterateOptions = {}): AsyncGenerator<Product> {
+    const { searchTitle, ...iterate } = options;
+    return paginate(async (after, limit) => {
+      const page = await this.getProducts({ searchTitle, limit, after });
+      return { items: page.products, pageInfo: page.pageInfo };
+    }, iterate);
+  }
+
   /**
    * Retrieves a single product by ID.
    *
    * @param productId - Shopify product ID (numeric or GID)
    * @returns Product object
+   * @throws {ResponseValidationError} If the response shape is unexpected
    *
    * @cached TTL: 1 hour
    */
-  async getProductById(productId: string): Promise<any> {
+  async getProductById(productId: string): Promise<Product> {
     const cacheKey = createCacheKey("product", { id: productId });
 
-    return cache.getOrFetch(
+    return this.cached(
       cacheKey,
-      () => this.callTool("get-product-by-id", { productId }),
-      { ttl: TTL.HOUR, bypassCache: this.cacheDisabled }
+      TTL.HOUR,
+      async () => {
+        const raw = await this.callTool("get-product-by-id", { productId });
+        return parseResponse("get-product-by-id", ProductResponseSchema, raw);
+      },
+      { refs: [entityRef("product", productId)] }
     );
   }
 
@@ -235,9 +677,10 @@ export class ShopifyMCPClient {
    * @param product.productType - Product type
    * @param product.tags - Comma-separated tags
    * @param product.status - Status: "ACTIVE", "DRAFT", "ARCHIVED"
-   * @returns Created product object
+   * @returns Created product object, or a diff in dry-run mode
+   * @throws {ResponseValidationError} If the response shape is unexpected
    *
-   * @invalidates products/*
+   * @invalidates product lists
    */
   async createProduct(product: {
     title: string;
@@ -246,11 +689,56 @@ export class ShopifyMCPClient {
     productType?: string;
     tags?: string;
     status?: string;
-  }): Promise<any> {
-    const result = await this.callTool("createProduct", product);
-    // Invalidate product caches after mutation
-    cache.invalidatePattern(/^products/);
-    return result;
+  }): Promise<Product | DryRunResult> {
+    if (this.dryRun) {
+      const { products } = await this.getProducts({ searchTitle: product.title, limit: 10 });
+      const existing = products.filter((p) => p.title.toLowerCase() === product.title.toLowerCase());
+      return this.dryRunResult("createProduct", product.title, null, {
+        ...product,
+        tags: product.tags !== undefined ? splitTags(product.tags) : undefined,
+      }, existing.map((p) => `A product titled "${p.title}" already exists (${p.id})`));
+    }
+
+    return this.audited("createProduct", product.title, product, null, async () => {
+      const raw = await this.callTool("createProduct", product);
+      // A new product can appear in any product list
+      this.invalidateEntities("product", [], { created: true });
+      return parseResponse("createProduct", ProductResponseSchema, raw);
+    });
+  }
+
+  /**
+   * Updates a product's details.
+   *
+   * Requires a server that provides the "update-product" tool.
+   *
+   * @param productId - Shopify product ID (GID)
+   * @param updates - Fields to update
+   * @param updates.tags - Full replacement tag list
+   * @returns Updated product object, or a diff in dry-run mode
+   * @throws {ResponseValidationError} If the response shape is unexpected
+   *
+   * @invalidates entries containing the product, filtered product lists
+   */
+  async updateProduct(productId: string, updates: {
+    title?: string;
+    descriptionHtml?: string;
+    vendor?: string;
+    productType?: string;
+    tags?: string[];
+    status?: string;
+  }): Promise<Product | DryRunResult> {
+    if (this.dryRun) {
+      const before = await this.getProductById(productId);
+      return this.dryRunResult("update-product", productId, before, updates);
+    }
+
+    const before = await this.snapshotProduct(productId);
+    return this.audited("update-product", productId, updates, before, async () => {
+      const raw = await this.callTool("update-product", { id: productId, ...updates });
+      this.invalidateEntities("product", [entityRef("product", productId)]);
+      return parseResponse("update-product", ProductResponseSchema, raw);
+    });
   }
 
   // ============================================
@@ -263,39 +751,75 @@ export class ShopifyMCPClient {
    * @param options - Filter options
    * @param options.searchQuery - Search query (name, email, etc.)
    * @param options.limit - Maximum customers to return
-   * @returns Array of customer objects
+   * @param options.after - Pagination cursor
+   * @returns Customers with pagination info
+   * @throws {ResponseValidationError} If the response shape is unexpected
    *
    * @cached TTL: 15 minutes
    *
    * @example
-   * const customers = await client.getCustomers({ searchQuery: "john@example.com" });
+   * const { customers } = await client.getCustomers({ searchQuery: "john@example.com" });
    */
-  async getCustomers(options?: { searchQuery?: string; limit?: number }): Promise<any> {
+  async getCustomers(options?: { searchQuery?: string; limit?: number; after?: string }): Promise<CustomerPage> {
     const cacheKey = createCacheKey("customers", {
       search: options?.searchQuery,
       limit: options?.limit,
+      after: options?.after,
     });
 
-    return cache.getOrFetch(
+    return this.cached(
       cacheKey,
+      TTL.FIFTEEN_MINUTES,
       async () => {
         const args: Record<string, any> = {};
         if (options?.searchQuery) args.searchQuery = options.searchQuery;
         if (options?.limit) args.limit = options.limit;
-        return this.callTool("get-customers", args);
+        if (options?.after) args.after = options.after;
+        const raw = await this.callTool("get-customers", args);
+        return parseResponse("get-customers", CustomerPageSchema, raw);
       },
-      { ttl: TTL.FIFTEEN_MINUTES, bypassCache: this.cacheDisabled }
+      { list: { type: "customer", filtered: !!options?.searchQuery } }
     );
   }
 
+  /**
+   * Iterates over all matching customers, fetching pages lazily.
+   *
+   * @param options - Search and iteration options (see iterateOrders)
+   */
+  iterateCustomers(options: { searchQuery?: string } & IterateOptions = {}): AsyncGenerator<Customer> {
+    const { searchQuery, ...iterate } = options;
+    return paginate(async (after, limit) => {
+      const page = await this.getCustomers({ searchQuery, limit, after });
+      return { items: page.customers, pageInfo: page.pageInfo };
+    }, iterate);
+  }
+
+  /**
+   * Retrieves a single customer by ID.
+   *
+   * The MCP server has no by-ID tool, so this searches with `id:<number>`.
+   *
+   * @param customerId - Shopify customer ID (numeric or GID)
+   * @returns Customer object, or null if not found
+   *
+   * @cached TTL: 15 minutes (via getCustomers)
+   */
+  async getCustomerById(customerId: string): Promise<Customer | null> {
+    const numericId = customerId.match(/(\d+)$/)?.[1] ?? customerId;
+    const { customers } = await this.getCustomers({ searchQuery: `id:${numericId}`, limit: 5 });
+    return customers.find((c) => c.id === customerId || c.id.endsWith(`/${numericId}`)) ?? null;
+  }
+
   /**
    * Updates a customer's details.
    *
    * @param customerId - Shopify customer ID
    * @param updates - Fields to update
-   * @returns Updated customer object
+   * @returns Updated customer object, or a diff in dry-run mode
+   * @throws {ResponseValidationError} If the response shape is unexpected
    *
-   * @invalidates customer/*
+   * @invalidates entries containing the customer (including orders and order history), filtered customer lists
    */
   async updateCustomer(customerId: string, updates: {
     firstName?: string;
@@ -305,11 +829,31 @@ export class ShopifyMCPClient {
     note?: string;
     tags?: string[];
     taxExempt?: boolean;
-  }): Promise<any> {
-    const result = await this.callTool("update-customer", { id: customerId, ...updates });
-    // Invalidate customer caches after mutation
-    cache.invalidatePattern(/^customer/);
-    return result;
+  }): Promise<Customer | DryRunResult> {
+    if (this.dryRun) {
+      const before = await this.getCustomerById(customerId);
+      return this.dryRunResult("update-customer", customerId, before, updates,
+        before ? [] : [`Customer ${customerId} not found`]);
+    }
+    return this.writeCustomer(customerId, updates);
+  }
+
+  /**
+   * Sends a customer update and journals it.
+   *
+   * @param undoOf - Audit entry this write reverts, recorded on its journal entry
+   */
+  private async writeCustomer(
+    customerId: string,
+    updates: Parameters<ShopifyMCPClient["updateCustomer"]>[1],
+    undoOf?: string
+  ): Promise<Customer> {
+    const before = await this.snapshotCustomer(customerId);
+    return this.audited("update-customer", customerId, updates, before, async () => {
+      const raw = await this.callTool("update-customer", { id: customerId, ...updates });
+      this.invalidateEntities("customer", [entityRef("customer", customerId)]);
+      return parseResponse("update-customer", CustomerResponseSchema, raw);
+    }, undoOf);
   }
 
   /**
@@ -317,21 +861,25 @@ export class ShopifyMCPClient {
    *
    * @param customerId - Shopify customer ID
    * @param limit - Maximum orders to return
-   * @returns Array of order objects
+   * @returns Orders with pagination info
+   * @throws {ResponseValidationError} If the response shape is unexpected
    *
    * @cached TTL: 5 minutes
    */
-  async getCustomerOrders(customerId: string, limit?: number): Promise<any> {
+  async getCustomerOrders(customerId: string, limit?: number): Promise<OrderPage> {
     const cacheKey = createCacheKey("customer_orders", { id: customerId, limit });
 
-    return cache.getOrFetch(
+    return this.cached(
       cacheKey,
+      TTL.FIVE_MINUTES,
       async () => {
         const args: Record<string, any> = { customerId };
         if (limit) args.limit = limit;
-        return this.callTool("get-customer-orders", args);
+        const raw = await this.callTool("get-customer-orders", args);
+        return parseResponse("get-customer-orders", OrderPageSchema, raw);
       },
-      { ttl: TTL.FIVE_MINUTES, bypassCache: this.cacheDisabled }
+      // Orders may not embed their customer, so tie the history to it explicitly
+      { refs: [entityRef("customer", customerId)], list: { type: "order", filtered: false } }
     );
   }
 
@@ -350,6 +898,7 @@ export class ShopifyMCPClient {
    * @param options.after - Pagination cursor
    * @param options.query - Query filter (e.g., "created_at:>2025-01-01")
    * @returns Orders with pagination info
+   * @throws {ResponseValidationError} If the response shape is unexpected
    *
    * @cached TTL: 5 minutes
    *
@@ -363,7 +912,7 @@ export class ShopifyMCPClient {
     reverse?: boolean;
     after?: string;  // Pagination cursor
     query?: string;  // Query filter (e.g., "created_at:>2025-01-01")
-  }): Promise<any> {
+  }): Promise<OrderPage> {
     const cacheKey = createCacheKey("orders", {
       status: options?.status,
       limit: options?.limit,
@@ -373,8 +922,9 @@ export class ShopifyMCPClient {
       query: options?.query,
     });
 
-    return cache.getOrFetch(
+    return this.cached(
       cacheKey,
+      TTL.FIVE_MINUTES,
       async () => {
         const args: Record<string, any> = {};
         if (options?.status) args.status = options.status;
@@ -383,70 +933,79 @@ export class ShopifyMCPClient {
         if (options?.reverse !== undefined) args.reverse = options.reverse;
         if (options?.after) args.after = options.after;
         if (options?.query) args.query = options.query;
-        return this.callTool("get-orders", args);
+        const raw = await this.callTool("get-orders", args);
+        return parseResponse("get-orders", OrderPageSchema, raw);
       },
-      { ttl: TTL.FIVE_MINUTES, bypassCache: this.cacheDisabled }
+      {
+        list: {
+          type: "order",
+          // Status and query filters, and update-time sorting, depend on order fields
+          filtered:
+            (!!options?.status && options.status !== "any") ||
+            !!options?.query ||
+            options?.sortKey === "UPDATED_AT",
+        },
+      }
     );
   }
 
+  /**
+   * Iterates over all matching orders, fetching pages lazily.
+   *
+   * Stop early by breaking out of the loop. To resume later, persist the
+   * checkpoint reported through `onCheckpoint` and pass it back as `resume`.
+   *
+   * @param options - Filter and iteration options
+   * @param options.status - Filter by status
+   * @param options.sortKey - Sort field (default: CREATED_AT)
+   * @param options.reverse - Reverse sort order (default: true, newest first)
+   * @param options.query - Query filter
+   * @param options.max - Stop after this many orders
+   * @param options.resume - Checkpoint from an earlier iteration
+   * @param options.onCheckpoint - Receives the position after each order
+   *
+   * @example
+   * for await (const order of client.iterateOrders({ query: "created_at:>2025-01-01" })) { ... }
+   */
+  iterateOrders(options: OrderFilters & IterateOptions = {}): AsyncGenerator<Order> {
+    const { status, sortKey, reverse, query, ...iterate } = options;
+    return paginate(async (after, pageSize) => {
+      const page = await this.getOrders({
+        status,
+        limit: pageSize,
+        sortKey: sortKey ?? "CREATED_AT",
+        reverse: reverse ?? true,  // Newest first by default
+        after,
+        query,
+      });
+      return { items: page.orders, pageInfo: page.pageInfo };
+    }, iterate);
+  }
+
   /**
    * Gets all orders with automatic pagination.
    *
-   * Not cached due to potential size. Use with caution.
+   * Not cached due to potential size; prefer iterateOrders for large ranges.
    *
    * @param options - Filter options
    * @param options.status - Filter by status
    * @param options.sortKey - Sort field
    * @param options.reverse - Reverse sort order
    * @param options.query - Query filter
-   * @param options.maxPages - Safety limit (default: 10, max 2500 orders)
-   * @returns Object with orders array, count, and hasMore flag
+   * @param options.max - Stop after this many orders (default: no limit)
+   * @param options.resume - Checkpoint from an earlier call
+   * @returns Orders, count, hasMore flag and a checkpoint to resume from
    */
-  async getAllOrders(options?: {
-    status?: string;
-    sortKey?: string;
-    reverse?: boolean;
-    query?: string;
-    maxPages?: number;  // Safety limit, default 10 (2500 orders max)
-  }): Promise<{ orders: any[]; totalFetched: number; hasMore: boolean }> {
-    const allOrders: any[] = [];
-    let cursor: string | undefined = undefined;
-    let hasNextPage = true;
-    let pageCount = 0;
-    const maxPages = options?.maxPages ?? 10;
-
-    while (hasNextPage && pageCount < maxPages) {
-      const result = await this.getOrders({
-        status: options?.status,
-        limit: 250,  // Max per request
-        sortKey: options?.sortKey ?? "CREATED_AT",
-        reverse: options?.reverse ?? true,  // Newest first by default
-        after: cursor,
-        query: options?.query,
-      });
-
-      // Handle response - may be array or object with pageInfo
-      if (Array.isArray(result)) {
-        allOrders.push(...result);
-        hasNextPage = false;  // No pagination info, assume done
-      } else if (result.orders) {
-        allOrders.push(...result.orders);
-        hasNextPage = result.pageInfo?.hasNextPage ?? false;
-        cursor = result.pageInfo?.endCursor;
-      } else {
-        // Unknown format, treat as single page
-        allOrders.push(result);
-        hasNextPage = false;
-      }
-
-      pageCount++;
-    }
-
-    return {
-      orders: allOrders,
-      totalFetched: allOrders.length,
-      hasMore: hasNextPage,
-    };
+  async getAllOrders(options?: OrderFilters & Pick<IterateOptions, "max" | "resume">): Promise<{
+    orders: Order[];
+    totalFetched: number;
+    hasMore: boolean;
+    checkpoint?: PageCheckpoint;
+  }> {
+    const { items, hasMore, checkpoint } = await collect((o) => this.iterateOrders(o), {
+      ...options,
+    });
+    return { orders: items, totalFetched: items.length, hasMore, checkpoint };
   }
 
   /**
@@ -454,31 +1013,89 @@ export class ShopifyMCPClient {
    *
    * @param orderId - Shopify order ID (numeric or GID)
    * @returns Order object with full details
+   * @throws {ResponseValidationError} If the response shape is unexpected
    *
    * @cached TTL: 5 minutes
    */
-  async getOrderById(orderId: string): Promise<any> {
+  async getOrderById(orderId: string): Promise<Order> {
     const cacheKey = createCacheKey("order", { id: orderId });
 
-    return cache.getOrFetch(
+    return this.cached(
       cacheKey,
-      () => this.callTool("get-order-by-id", { orderId }),
-      { ttl: TTL.FIVE_MINUTES, bypassCache: this.cacheDisabled }
+      TTL.FIVE_MINUTES,
+      async () => {
+        const raw = await this.callTool("get-order-by-id", { orderId });
+        return parseResponse("get-order-by-id", OrderResponseSchema, raw);
+      },
+      { refs: [entityRef("order", orderId)] }
     );
   }
 
+  /**
+   * Finds orders from a loose reference as a human would paste it.
+   *
+   * Accepts an order name ("#ORD1234"), a bare order number ("1234"),
+   * a customer email, a numeric order ID, a GID or a Shopify admin URL.
+   * Names and emails are resolved through the `query` search syntax first,
+   * falling back to a bounded scan of recent orders.
+   *
+   * @param reference - Order reference in any of the formats above
+   * @param options - Lookup options
+   * @param options.scanLimit - Recent orders to scan in the fallback (default: 1000)
+   * @returns Matched orders (with GIDs) and how the reference was interpreted
+   * @throws {Error} If the reference is empty
+   *
+   * @example
+   * const { orders } = await client.findOrder("#ORD1234");
+   */
+  async findOrder(
+    reference: string,
+    options?: { scanLimit?: number }
+  ): Promise<{ reference: string; matchedBy: OrderReference["kind"]; orders: Order[] }> {
+    const parsed = parseOrderReference(reference);
+
+    if (parsed.kind === "id") {
+      const order = await this.getOrderById(parsed.gid);
+      return { reference, matchedBy: "id", orders: order ? [order] : [] };
+    }
+
+    const matches = (order: Order): boolean =>
+      parsed.kind === "name"
+        ? orderNumberOf(order.name) === parsed.number
+        : [order.email, order.customer?.email].some(
+            (email) => typeof email === "string" && email.toLowerCase() === parsed.email
+          );
+
+    const query = parsed.kind === "name" ? `name:${parsed.name}` : `email:${parsed.email}`;
+    const searched = await this.getOrders({ query, status: "any", limit: 50 });
+    let orders = searched.orders.filter(matches);
+
+    if (orders.length === 0) {
+      // Search syntax varies with custom order prefixes; scan recent orders instead
+      for await (const order of this.iterateOrders({ status: "any", max: options?.scanLimit ?? 1000 })) {
+        if (!matches(order)) continue;
+        orders.push(order);
+        // Order numbers are unique; emails can match many orders
+        if (parsed.kind === "name") break;
+      }
+    }
+
+    return { reference, matchedBy: parsed.kind, orders };
+  }
+
   /**
    * Updates tracking information on an existing fulfillment.
    *
    * @param fulfillmentId - Fulfillment GID (gid://shopify/Fulfillment/...)
    * @param trackingNumber - New tracking number
    * @param options - Optional tracking details
-   * @param options.trackingCompany - Carrier name (e.g., UPS, Royal Mail)
-   * @param options.trackingUrl - Tracking URL
+   * @param options.trackingCompany - Carrier name or alias (e.g., UPS, Royal Mail)
+   * @param options.trackingUrl - Tracking URL (generated for known carriers if omitted)
    * @param options.notifyCustomer - Send email to customer (default: false)
-   * @returns Updated fulfillment object
+   * @returns Updated fulfillment object, or a diff in dry-run mode
+   * @throws {Error} If the tracking number doesn't match the carrier's format
    *
-   * @invalidates order/*
+   * @invalidates entries containing the order, filtered order lists
    */
   async updateFulfillmentTracking(
     fulfillmentId: string,
@@ -488,14 +1105,23 @@ export class ShopifyMCPClient {
       trackingUrl?: string;
       notifyCustomer?: boolean;
     }
-  ): Promise<any> {
-    const result = await this.callTool("update-fulfillment-tracking", {
-      fulfillmentId,
-      trackingNumber,
-      ...options,
+  ): Promise<MutationResult | DryRunResult> {
+    const tracking = this.carriers.resolve(trackingNumber, options?.trackingCompany, options?.trackingUrl);
+
+    if (this.dryRun) {
+      // Fulfillments can only be read through their order, which we don't know here
+      return this.dryRunResult("update-fulfillment-tracking", fulfillmentId, null,
+        { ...options, ...tracking },
+        ["Current tracking not fetched; check the order's fulfillments with get-order"]);
+    }
+
+    const args = { fulfillmentId, ...options, ...tracking };
+    return this.audited("update-fulfillment-tracking", fulfillmentId, args, null, async () => {
+      const result = await this.callTool("update-fulfillment-tracking", args);
+      // Order responses include their fulfillments' IDs
+      this.invalidateEntities("order", [fulfillmentId]);
+      return result as MutationResult;
     });
-    cache.invalidatePattern(/^order/);
-    return result;
   }
 
   /**
@@ -504,13 +1130,15 @@ export class ShopifyMCPClient {
    * @param orderNumber - Order number (e.g., "1234" or "#ORD1234")
    * @param trackingNumber - Tracking number
    * @param options - Optional fulfillment details
-   * @param options.trackingCompany - Carrier name (default: UPS)
-   * @param options.trackingUrl - Tracking URL (auto-generated for UPS if omitted)
+   * @param options.trackingCompany - Carrier name or alias (detected from the number, else UPS)
+   * @param options.trackingUrl - Tracking URL (generated for known carriers if omitted)
    * @param options.notifyCustomer - Send email to customer (default: false)
    * @param options.lineItems - Specific items to fulfill (omit for all)
-   * @returns Fulfillment result
+   * @param options.order - The order, if already looked up (skips finding it again)
+   * @returns Fulfillment result, or a diff in dry-run mode
+   * @throws {Error} If the tracking number doesn't match the carrier's format
    *
-   * @invalidates order/*
+   * @invalidates entries containing the order, filtered order lists
    */
   async createFulfillment(
     orderNumber: string,
@@ -520,15 +1148,28 @@ export class ShopifyMCPClient {
       trackingUrl?: string;
       notifyCustomer?: boolean;
       lineItems?: Array<{ sku: string; quantity: number }>;
+      order?: Order;
     }
-  ): Promise<any> {
-    const result = await this.callTool("create-fulfillment", {
-      orderNumber,
-      trackingNumber,
-      ...options,
+  ): Promise<MutationResult | DryRunResult> {
+    const { order: known, ...fulfillment } = options ?? {};
+    const tracking = this.carriers.resolve(trackingNumber, fulfillment.trackingCompany, fulfillment.trackingUrl);
+
+    if (this.dryRun) {
+      const { order, warnings } = await this.previewOrder(orderNumber, fulfillment.lineItems, known);
+      if (order?.fulfillmentStatus?.toUpperCase() === "FULFILLED") {
+        warnings.push(`Order ${order.name} is already fulfilled`);
+      }
+      return this.dryRunResult("create-fulfillment", orderNumber, order,
+        { ...fulfillment, ...tracking }, warnings);
+    }
+
+    const args = { orderNumber, ...fulfillment, ...tracking };
+    const before = known ? await this.snapshotOrder(known.id) : await this.snapshotOrderByReference(orderNumber);
+    return this.audited("create-fulfillment", orderNumber, args, before, async () => {
+      const result = await this.callTool("create-fulfillment", args);
+      this.invalidateEntities("order", [orderRefOf(orderNumber)]);
+      return result as MutationResult;
     });
-    cache.invalidatePattern(/^order/);
-    return result;
   }
 
   /**
@@ -539,9 +1180,9 @@ export class ShopifyMCPClient {
    * @param options.lineItems - Specific items to return by SKU (omit for all)
    * @param options.returnReason - Return reason enum (default: OTHER)
    * @param options.notifyCustomer - Send email to customer (default: false)
-   * @returns Return result with ID, status, and returned items
+   * @returns Return result with ID, status, and returned items, or a diff in dry-run mode
    *
-   * @invalidates order/*
+   * @invalidates entries containing the order, filtered order lists
    */
   async createReturn(
     orderNumber: string,
@@ -550,13 +1191,22 @@ export class ShopifyMCPClient {
       returnReason?: string;
       notifyCustomer?: boolean;
     }
-  ): Promise<any> {
-    const result = await this.callTool("create-return", {
-      orderNumber,
-      ...options,
+  ): Promise<MutationResult | DryRunResult> {
+    if (this.dryRun) {
+      const { order, warnings } = await this.previewOrder(orderNumber, options?.lineItems);
+      if (order && order.fulfillments.length === 0) {
+        warnings.push(`Order ${order.name} has no fulfillments to return`);
+      }
+      return this.dryRunResult("create-return", orderNumber, order, { ...options }, warnings);
+    }
+
+    const args = { orderNumber, ...options };
+    const before = await this.snapshotOrderByReference(orderNumber);
+    return this.audited("create-return", orderNumber, args, before, async () => {
+      const result = await this.callTool("create-return", args);
+      this.invalidateEntities("order", [orderRefOf(orderNumber)]);
+      return result as MutationResult;
     });
-    cache.invalidatePattern(/^order/);
-    return result;
   }
 
   /**
@@ -565,11 +1215,13 @@ export class ShopifyMCPClient {
    * @param returnId - Return GID (gid://shopify/Return/...)
    * @param trackingNumber - Tracking number for the return shipment
    * @param options - Optional tracking details
-   * @param options.trackingCompany - Carrier name (default: UPS)
-   * @param options.trackingUrl - Tracking URL (auto-generated for UPS if omitted)
-   * @returns Reverse delivery result with ID and tracking info
+   * @param options.trackingCompany - Carrier name or alias (detected from the number, else UPS)
+   * @param options.trackingUrl - Tracking URL (generated for known carriers if omitted)
+   * @param options.labelUrl - URL of the return label image
+   * @returns Reverse delivery result with ID and tracking info, or a diff in dry-run mode
+   * @throws {Error} If the tracking number doesn't match the carrier's format
    *
-   * @invalidates order/*
+   * @invalidates entries containing the order, filtered order lists
    */
   async createReverseDelivery(
     returnId: string,
@@ -579,14 +1231,20 @@ export class ShopifyMCPClient {
       trackingUrl?: string;
       labelUrl?: string;
     }
-  ): Promise<any> {
-    const result = await this.callTool("create-reverse-delivery", {
-      returnId,
-      trackingNumber,
-      ...options,
+  ): Promise<MutationResult | DryRunResult> {
+    const tracking = this.carriers.resolve(trackingNumber, options?.trackingCompany, options?.trackingUrl);
+
+    if (this.dryRun) {
+      return this.dryRunResult("create-reverse-delivery", returnId, null, { ...options, ...tracking });
+    }
+
+    const args = { returnId, ...options, ...tracking };
+    return this.audited("create-reverse-delivery", returnId, args, null, async () => {
+      const result = await this.callTool("create-reverse-delivery", args);
+      // Order responses include their returns' IDs
+      this.invalidateEntities("order", [returnId]);
+      return result as MutationResult;
     });
-    cache.invalidatePattern(/^order/);
-    return result;
   }
 
   /**
@@ -600,9 +1258,10 @@ export class ShopifyMCPClient {
    * @param updates.customAttributes - Custom attributes
    * @param updates.metafields - Metafields
    * @param updates.shippingAddress - Shipping address
-   * @returns Updated order object
+   * @returns Updated order object, or a diff in dry-run mode
+   * @throws {ResponseValidationError} If the response shape is unexpected
    *
-   * @invalidates order/*
+   * @invalidates entries containing the order, filtered order lists
    */
   async updateOrder(orderId: string, updates: {
     tags?: string;
@@ -611,11 +1270,345 @@ export class ShopifyMCPClient {
     customAttributes?: any;
     metafields?: any;
     shippingAddress?: any;
-  }): Promise<any> {
-    const result = await this.callTool("update-order", { id: orderId, ...updates });
-    // Invalidate order caches after mutation
-    cache.invalidatePattern(/^order/);
-    return result;
+  }): Promise<Order | DryRunResult> {
+    if (this.dryRun) {
+      const before = await this.getOrderById(orderId);
+      const proposed = { ...updates, tags: updates.tags !== undefined ? splitTags(updates.tags) : undefined };
+      const warnings: string[] = [];
+      const removed = before.tags.filter((t) => !proposed.tags?.includes(t));
+      if (proposed.tags && removed.length) {
+        warnings.push(`--tags replaces all existing tags; this removes: ${removed.join(", ")}`);
+      }
+      return this.dryRunResult("update-order", orderId, before, proposed, warnings);
+    }
+    return this.writeOrder(orderId, updates);
+  }
+
+  /**
+   * Sends an order update and journals it.
+   *
+   * @param undoOf - Audit entry this write reverts, recorded on its journal entry
+   */
+  private async writeOrder(
+    orderId: string,
+    updates: Parameters<ShopifyMCPClient["updateOrder"]>[1],
+    undoOf?: string
+  ): Promise<Order> {
+    const before = await this.snapshotOrder(orderId);
+    return this.audited("update-order", orderId, updates, before, async () => {
+      const raw = await this.callTool("update-order", { id: orderId, ...updates });
+      this.invalidateEntities("order", [entityRef("order", orderId)]);
+      return parseResponse("update-order", OrderResponseSchema, raw);
+    }, undoOf);
+  }
+
+  // ============================================
+  // TAG OPERATIONS
+  // ============================================
+
+  /**
+   * Adds, removes or replaces tags with a read-modify-write, leaving
+   * unrelated tags alone. Skips the write when nothing would change.
+   *
+   * @param type - Entity type: "order", "customer" or "product"
+   * @param id - Entity ID (GID)
+   * @param operation - "add", "remove" or "set"
+   * @param tags - Tags to apply
+   * @returns Tag change (before/after/added/removed) and the update result
+   * @throws {Error} If the entity cannot be found
+   *
+   * @example
+   * await client.modifyTags("order", "gid://shopify/Order/123", "add", ["urgent"]);
+   */
+  async modifyTags(
+    type: TagTarget,
+    id: string,
+    operation: TagOperation,
+    tags: string[]
+  ): Promise<TagUpdate> {
+    return this.rewriteTags(type, id, (current) => applyTagOperation(current, operation, tags));
+  }
+
+  /**
+   * Removes some tags and adds others in a single read-modify-write, so
+   * the entity is never left with neither set (e.g. when swapping one
+   * segment tag for another). Skips the write when nothing would change.
+   *
+   * @param type - Entity type: "order", "customer" or "product"
+   * @param id - Entity ID (GID)
+   * @param edit - Tags to remove, then tags to add
+   * @returns Tag change (before/after/added/removed) and the update result
+   * @throws {Error} If the entity cannot be found
+   */
+  async editTags(type: TagTarget, id: string, edit: { add?: string[]; remove?: string[] }): Promise<TagUpdate> {
+    return this.rewriteTags(type, id, (current) => applyTagEdit(current, edit));
+  }
+
+  private async rewriteTags(type: TagTarget, id: string, edit: (current: string[]) => TagChange): Promise<TagUpdate> {
+    // Read fresh state so concurrent edits aren't overwritten from a stale cache
+    const current =
+      type === "order" ? await this.snapshotOrder(id)
+      : type === "customer" ? await this.snapshotCustomer(id)
+      : await this.snapshotProduct(id);
+    if (!current) throw new Error(`${type} ${id} not found`);
+
+    const change = edit(current.tags);
+    if (!change.changed) return { type, id, ...change, result: null };
+
+    const result =
+      type === "order" ? await this.updateOrder(id, { tags: change.after.join(", ") })
+      : type === "customer" ? await this.updateCustomer(id, { tags: change.after })
+      : await this.updateProduct(id, { tags: change.after });
+
+    return { type, id, ...change, result };
+  }
+
+  // ============================================
+  // AUDIT JOURNAL
+  // ============================================
+
+  /**
+   * Reads mutation journal entries, newest first.
+   *
+   * @param filter - Filter by entity ID, command (tool name) and date range
+   * @returns Matching audit entries
+   */
+  getAuditLog(filter?: AuditFilter): AuditEntry[] {
+    return this.audit.read(filter);
+  }
+
+  /**
+   * Reverts a journaled update-order or update-customer call by
+   * re-applying the recorded previous values of the fields it set.
+   *
+   * Only tags, note, email, phone and name fields are reversible. Honours
+   * dry-run mode, and the revert is itself journaled with `undoOf` set.
+   * Refuses when those fields changed after the entry (per the entity's
+   * current state or later journal entries), since re-applying the old
+   * values would discard the later edits, unless `force` is set.
+   *
+   * @param entryId - Audit entry ID (or unique prefix)
+   * @param options.force - Undo even if the fields changed since
+   * @returns Reverted field values, skipped fields and the update result
+   * @throws {Error} If the entry is missing, failed, already undone, not reversible or superseded
+   */
+  async undo(entryId: string, options?: { force?: boolean }): Promise<{
+    undone: string;
+    entityId: string;
+    reverted: Record<string, unknown>;
+    skipped: string[];
+    result: Order | Customer | DryRunResult;
+  }> {
+    const entry = this.audit.get(entryId);
+    if (!entry) throw new Error(`Audit entry ${entryId} not found`);
+    if (entry.command !== "update-order" && entry.command !== "update-customer") {
+      throw new Error(`Audit entry ${entry.id} (${entry.command}) is not reversible`);
+    }
+    if (entry.store !== this.config.name) {
+      throw new Error(`Audit entry ${entry.id} was recorded for store "${entry.store}"; re-run with --store ${entry.store}`);
+    }
+    if (entry.error) throw new Error(`Audit entry ${entry.id} failed; there is nothing to undo`);
+    if (!entry.before) throw new Error(`Audit entry ${entry.id} has no recorded previous state`);
+
+    const undoneBy = this.audit.findUndo(entry.id);
+    if (undoneBy) throw new Error(`Audit entry ${entry.id} was already undone by ${undoneBy.id}`);
+
+    const before = entry.before as Record<string, any>;
+    const reverted: Record<string, any> = {};
+    const skipped: string[] = [];
+
+    for (const field of REVERSIBLE_FIELDS) {
+      if (entry.args[field] === undefined) continue;
+      const previous = before[field];
+      if (field === "tags") reverted.tags = previous ?? [];
+      else if (field === "note") reverted.note = previous ?? "";
+      else if (previous != null) reverted[field] = previous;
+      else skipped.push(field);  // Can't clear email/phone/name back to empty
+    }
+
+    if (Object.keys(reverted).length === 0) {
+      throw new Error(`Audit entry ${entry.id} changed no reversible fields`);
+    }
+
+    if (!options?.force) {
+      const conflicts = await this.undoConflicts(entry, Object.keys(reverted));
+      if (conflicts.length) {
+        throw new Error(
+          `Audit entry ${entry.id}: ${conflicts.join("; ")}. Undoing would overwrite those changes; pass --force to undo anyway`
+        );
+      }
+    }
+
+    const result = entry.command === "update-order"
+      ? this.dryRun
+        ? await this.updateOrder(entry.entityId, { ...reverted, tags: reverted.tags?.join(", ") })
+        : await this.writeOrder(entry.entityId, { ...reverted, tags: reverted.tags?.join(", ") }, entry.id)
+      : this.dryRun
+        ? await this.updateCustomer(entry.entityId, reverted)
+        : await this.writeCustomer(entry.entityId, reverted, entry.id);
+    return { undone: entry.id, entityId: entry.entityId, reverted, skipped, result };
+  }
+
+  /**
+   * Describes changes to an entry's fields made after it: later journal
+   * entries touching them, and fields whose current value isn't the one
+   * the entry set (edits made outside this CLI).
+   */
+  private async undoConflicts(entry: AuditEntry, fields: string[]): Promise<string[]> {
+    const conflicts: string[] = [];
+
+    const later = this.audit
+      .read({ entityId: entry.entityId, since: entry.timestamp })
+      .filter((e) => e.id !== entry.id && !e.error && e.store === entry.store && e.timestamp >= entry.timestamp)
+      .filter((e) => fields.some((field) => e.args[field] !== undefined));
+    // A later write that was itself undone cancels out with its undo
+    const ids = new Set(later.map((e) => e.id));
+    const undone = new Set(later.map((e) => e.undoOf).filter((id) => id && ids.has(id)));
+    const superseding = later.filter((e) => !undone.has(e.id) && !(e.undoOf && ids.has(e.undoOf)));
+    if (superseding.length) {
+      conflicts.push(`later journal entries changed the same fields (${superseding.map((e) => e.id).join(", ")})`);
+    }
+
+    const current = entry.command === "update-order"
+      ? await this.snapshotOrder(entry.entityId)
+      : await this.snapshotCustomer(entry.entityId);
+    if (!current) {
+      conflicts.push(`its current state couldn't be fetched to check for later changes`);
+      return conflicts;
+    }
+
+    const written = (entry.result ?? {}) as Record<string, unknown>;
+    const changed = fields.filter((field) => {
+      const set = written[field] !== undefined
+        ? written[field]
+        : field === "tags" && typeof entry.args.tags === "string" ? splitTags(entry.args.tags) : entry.args[field];
+      return !sameFieldValue(field, set, (current as Record<string, unknown>)[field]);
+    });
+    if (changed.length) conflicts.push(`${changed.join(", ")} changed since`);
+    return conflicts;
+  }
+
+  /**
+   * Runs a mutation and journals its arguments, prior state, result or error.
+   */
+  private async audited<T>(
+    command: string,
+    entityId: string,
+    args: Record<string, unknown>,
+    before: unknown,
+    run: () => Promise<T>,
+    undoOf?: string
+  ): Promise<T> {
+    const base = { store: this.config.name, command, entityId, args, before, ...(undoOf ? { undoOf } : {}) };
+    try {
+      const result = await run();
+      this.audit.append({ ...base, result });
+      return result;
+    } catch (error) {
+      this.audit.append({ ...base, error: error instanceof Error ? error.message : String(error) });
+      throw error;
+    }
+  }
+
+  /**
+   * Fetches an order's current state for the journal, bypassing the cache.
+   * Returns null if it can't be fetched, so the write itself isn't blocked.
+   */
+  private async snapshotOrder(orderId: string): Promise<Order | null> {
+    try {
+      const raw = await this.callTool("get-order-by-id", { orderId });
+      return parseResponse("get-order-by-id", OrderResponseSchema, raw);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Snapshots an order given by number or other findOrder reference.
+   * Returns null if it can't be resolved to exactly one order.
+   */
+  private async snapshotOrderByReference(reference: string): Promise<Order | null> {
+    try {
+      const { orders } = await this.findOrder(reference);
+      return orders.length === 1 ? this.snapshotOrder(orders[0].id) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Fetches a customer's current state for the journal, bypassing the cache.
+   */
+  private async snapshotCustomer(customerId: string): Promise<Customer | null> {
+    try {
+      const numericId = customerId.match(/(\d+)$/)?.[1] ?? customerId;
+      const raw = await this.callTool("get-customers", { searchQuery: `id:${numericId}`, limit: 5 });
+      const { customers } = parseResponse("get-customers", CustomerPageSchema, raw);
+      return customers.find((c) => c.id === customerId || c.id.endsWith(`/${numericId}`)) ?? null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Fetches a product's current state, bypassing the cache.
+   */
+  private async snapshotProduct(productId: string): Promise<Product | null> {
+    try {
+      const raw = await this.callTool("get-product-by-id", { productId });
+      return parseResponse("get-product-by-id", ProductResponseSchema, raw);
+    } catch {
+      return null;
+    }
+  }
+
+  // ============================================
+  // DRY RUN
+  // ============================================
+
+  /**
+   * Whether mutations are being previewed instead of sent.
+   */
+  isDryRunEnabled(): boolean {
+    return this.dryRun;
+  }
+
+  /**
+   * Builds the preview returned by mutations in dry-run mode.
+   */
+  private dryRunResult(
+    operation: string,
+    target: string,
+    before: Record<string, any> | null,
+    updates: Record<string, unknown>,
+    warnings: string[] = []
+  ): DryRunResult {
+    return {
+      dryRun: true,
+      operation,
+      target,
+      before,
+      changes: diffFields(before, updates),
+      warnings,
+    };
+  }
+
+  /**
+   * Looks up the order a fulfillment/return would apply to and checks requested SKUs.
+   */
+  private async previewOrder(
+    orderNumber: string,
+    lineItems?: Array<{ sku: string; quantity: number }>,
+    known?: Order
+  ): Promise<{ order: Order | null; warnings: string[] }> {
+    const order = known ?? (await this.findOrder(orderNumber)).orders[0] ?? null;
+    if (!order) return { order, warnings: [`Order ${orderNumber} not found`] };
+
+    const skus = new Set(order.lineItems.map((item) => item.sku ?? item.variant?.sku));
+    const warnings = (lineItems ?? [])
+      .filter((item) => !skus.has(item.sku))
+      .map((item) => `SKU ${item.sku} is not on order ${order.name}`);
+    return { order, warnings };
   }
 
   // ============================================
@@ -630,6 +1623,120 @@ export class ShopifyMCPClient {
   getStoreDomain(): string {
     return this.config.storeDomain;
   }
+
+  /**
+   * Guesses the carrier from a tracking number's format.
+   *
+   * @param trackingNumber - Tracking number (spaces and dashes ignored)
+   * @returns Matching carriers with their tracking URLs (empty if none match)
+   */
+  detectCarrier(trackingNumber: string): Array<{ key: string; name: string; trackingUrl: string }> {
+    return this.carriers.detect(trackingNumber);
+  }
+
+  /**
+   * Gets the parsed config.json (all store profiles and shared settings).
+   */
+  getPluginConfig(): PluginConfig {
+    return this.pluginConfig;
+  }
+
+  /**
+   * Gets the name of the active store profile.
+   */
+  getStoreName(): string {
+    return this.config.name;
+  }
+
+  /**
+   * Lists the store profiles defined in config.json.
+   *
+   * @returns Profiles with their domains, flagging the default and active ones
+   */
+  listStores(): Array<{ name: string; storeDomain: string; default: boolean; active: boolean }> {
+    return Object.entries(this.pluginConfig.stores).map(([name, profile]) => ({
+      name,
+      storeDomain: profile.storeDomain,
+      default: name === this.pluginConfig.defaultStore,
+      active: name === this.config.name,
+    }));
+  }
+}
+
+/**
+ * Interprets a loose order reference.
+ *
+ * Numbers of 10+ digits are treated as order IDs; shorter ones as order numbers.
+ */
+function parseOrderReference(reference: string): OrderReference {
+  const input = reference.trim();
+  if (!input) throw new Error("Order reference is empty");
+
+  const gidMatch = input.match(/^gid:\/\/shopify\/Order\/(\d+)$/);
+  if (gidMatch) return { kind: "id", gid: input };
+
+  // Admin URLs: admin.shopify.com/store/<shop>/orders/<id> or <shop>.myshopify.com/admin/orders/<id>
+  const urlMatch = input.match(/^https?:\/\/.*\/orders\/(\d+)/);
+  if (urlMatch) return { kind: "id", gid: `gid://shopify/Order/${urlMatch[1]}` };
+
+  if (/^\d{10,}$/.test(input)) return { kind: "id", gid: `gid://shopify/Order/${input}` };
+
+  if (input.includes("@")) return { kind: "email", email: input.toLowerCase() };
+
+  const number = orderNumberOf(input);
+  if (number) return { kind: "name", number, name: input.startsWith("#") ? input : `#${input}` };
+
+  throw new Error(`Unrecognized order reference: ${reference}`);
+}
+
+/**
+ * Extracts the trailing number from an order name or reference, the way
+ * findOrder matches it ("#ORD1234" -> "1234").
+ */
+export function orderNumberOf(name: string): string | undefined {
+  return name.trim().match(/(\d+)$/)?.[1];
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Cache index reference for an order given by number, name or ID.
+ * References the tools accepted but we can't interpret match nothing.
+ */
+function orderRefOf(reference: string): string {
+  try {
+    const parsed = parseOrderReference(reference);
+    if (parsed.kind === "id") return parsed.gid;
+    if (parsed.kind === "name") return orderNumberRef(parsed.number);
+  } catch {
+    // Fall through
+  }
+  return orderNumberRef(reference);
+}
+
+/**
+ * Compares a journaled field value with the current one. Tags compare as
+ * sets, ignoring case and order; missing and empty values are equal.
+ */
+function sameFieldValue(field: string, a: unknown, b: unknown): boolean {
+  if (field === "tags") {
+    const normalize = (tags: unknown) =>
+      (Array.isArray(tags) ? tags : typeof tags === "string" ? splitTags(tags) : [])
+        .map((t) => String(t).trim().toLowerCase())
+        .sort()
+        .join(",");
+    return normalize(a) === normalize(b);
+  }
+  return (a ?? "") === (b ?? "");
+}
+
+/**
+ * Splits a comma-separated tag string into trimmed, non-empty tags.
+ */
+function splitTags(tags: string): string[] {
+  return tags.split(",").map((t) => t.trim()).filter(Boolean);
 }
 
 export default ShopifyMCPClient;
@@ -0,0 +1,198 @@
+#!/usr/bin/env npx tsx
+/**
+ * Mock Shopify MCP Server
+ *
+ * Stdio MCP server implementing the tools the client calls, backed by an
+ * in-memory MockStore. Point a store profile's mcpServer at it for a
+ * sandbox that supports writes:
+ *
+ *   "command": "npx", "args": ["tsx", "scripts/mock-server.ts", "--state", "data/mock-store.json"]
+ *
+ * Options:
+ *   --seed <file>   Dataset to start from (default: mock-store.seed.json in the plugin root)
+ *   --state <file>  Save writes here and load them on the next start. Without it,
+ *                   writes last only as long as the server process (one CLI command).
+ */
+
+import { dirname, join } from "path";
+import { fileURLToPath } from "url";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "@local/cli-utils";
+import { MockStore } from "./mock-store.js";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+// When compiled, __dirname is dist/, so look in parent for the seed
+const DEFAULT_SEED_PATH = join(__dirname, "..", "mock-store.seed.json");
+
+const lineItems = z.array(z.object({ sku: z.string(), quantity: z.number().int().positive() }));
+
+const trackingFields = {
+  trackingNumber: z.string(),
+  trackingCompany: z.string().optional(),
+  trackingUrl: z.string().optional(),
+};
+
+/**
+ * Builds the server with every tool registered against the store.
+ */
+function createMockServer(store: MockStore): McpServer {
+  const server = new McpServer({ name: "shopify-mock", version: "1.0.0" });
+
+  // registerTool's own generics are too deep for tsc across this many shapes
+  const register = server.registerTool.bind(server) as (
+    name: string,
+    config: { description: string; inputSchema: z.ZodRawShape },
+    callback: (args: any) => CallToolResult
+  ) => void;
+
+  const tool = <S extends z.ZodRawShape>(
+    name: string,
+    description: string,
+    inputSchema: S,
+    handler: (args: z.objectOutputType<S, z.ZodTypeAny>) => unknown
+  ) => register(name, { description, inputSchema }, (args) => respond(() => handler(args)));
+
+  // Orders
+
+  tool("get-orders", "List orders with cursor pagination and a Shopify search query", {
+    first: z.number().int().positive().optional(),
+    after: z.string().optional(),
+    status: z.enum(["any", "open", "closed", "cancelled"]).optional(),
+    sortKey: z.string().optional(),
+    reverse: z.boolean().optional(),
+    query: z.string().optional(),
+  }, (args) => page(store.listOrders(args)));
+
+  tool("get-order-by-id", "Get an order by ID", {
+    orderId: z.string(),
+  }, ({ orderId }) => ({ order: store.getOrder(orderId) }));
+
+  tool("update-order", "Update an order's tags, email, note, attributes or shipping address", {
+    id: z.string(),
+    tags: z.string().optional(),
+    email: z.string().optional(),
+    note: z.string().optional(),
+    customAttributes: z.any().optional(),
+    metafields: z.any().optional(),
+    shippingAddress: z.record(z.any()).optional(),
+  }, ({ id, ...updates }) => ({ order: store.updateOrder(id, updates) }));
+
+  tool("create-fulfillment", "Fulfill an order (or some of its line items) with tracking", {
+    orderNumber: z.string(),
+    ...trackingFields,
+    notifyCustomer: z.boolean().optional(),
+    lineItems: lineItems.optional(),
+  }, (args) => store.createFulfillment(args));
+
+  tool("update-fulfillment-tracking", "Replace a fulfillment's tracking details", {
+    fulfillmentId: z.string(),
+    ...trackingFields,
+    notifyCustomer: z.boolean().optional(),
+  }, (args) => store.updateFulfillmentTracking(args));
+
+  tool("create-return", "Create a return for fulfilled line items", {
+    orderNumber: z.string(),
+    lineItems: lineItems.optional(),
+    returnReason: z.string().optional(),
+    notifyCustomer: z.boolean().optional(),
+  }, (args) => store.createReturn(args));
+
+  tool("create-reverse-delivery", "Attach return shipping to a return", {
+    returnId: z.string(),
+    ...trackingFields,
+    labelUrl: z.string().optional(),
+  }, (args) => store.createReverseDelivery(args));
+
+  // Customers
+
+  tool("get-customers", "Search customers with cursor pagination", {
+    searchQuery: z.string().optional(),
+    limit: z.number().int().positive().optional(),
+    after: z.string().optional(),
+  }, (args) => page(store.listCustomers(args)));
+
+  tool("update-customer", "Update a customer", {
+    id: z.string(),
+    firstName: z.string().optional(),
+    lastName: z.string().optional(),
+    email: z.string().optional(),
+    phone: z.string().optional(),
+    note: z.string().optional(),
+    tags: z.array(z.string()).optional(),
+    taxExempt: z.boolean().optional(),
+  }, ({ id, ...updates }) => ({ customer: store.updateCustomer(id, updates) }));
+
+  tool("get-customer-orders", "List a customer's orders, newest first", {
+    customerId: z.string(),
+    limit: z.number().int().positive().optional(),
+  }, ({ customerId, limit }) => page(store.listCustomerOrders(customerId, limit)));
+
+  // Products
+
+  tool("get-products", "Search products with cursor pagination", {
+    searchTitle: z.string().optional(),
+    limit: z.number().int().positive().optional(),
+    after: z.string().optional(),
+  }, (args) => page(store.listProducts(args)));
+
+  tool("get-product-by-id", "Get a product by ID", {
+    productId: z.string(),
+  }, ({ productId }) => ({ product: store.getProduct(productId) }));
+
+  const productFields = {
+    descriptionHtml: z.string().optional(),
+    vendor: z.string().optional(),
+    productType: z.string().optional(),
+    status: z.enum(["ACTIVE", "DRAFT", "ARCHIVED"]).optional(),
+  };
+
+  tool("createProduct", "Create a product", {
+    title: z.string(),
+    ...productFields,
+    tags: z.union([z.string(), z.array(z.string())]).optional(),
+  }, (args) => ({ product: store.createProduct(args) }));
+
+  tool("update-product", "Update a product", {
+    id: z.string(),
+    title: z.string().optional(),
+    ...productFields,
+    tags: z.array(z.string()).optional(),
+  }, ({ id, ...updates }) => ({ product: store.updateProduct(id, updates) }));
+
+  return server;
+}
+
+/**
+ * Wraps a handler's result (or error) as MCP text content.
+ */
+function respond(handler: () => unknown): CallToolResult {
+  try {
+    return { content: [{ type: "text", text: JSON.stringify(handler(), null, 2) }] };
+  } catch (error) {
+    return { isError: true, content: [{ type: "text", text: (error as Error).message }] };
+  }
+}
+
+function page(result: { key: string; items: unknown[]; pageInfo: unknown }) {
+  return { [result.key]: result.items, pageInfo: result.pageInfo };
+}
+
+function option(argv: string[], name: string): string | undefined {
+  const index = argv.indexOf(`--${name}`);
+  return index === -1 ? undefined : argv[index + 1];
+}
+
+// Run server
+const argv = process.argv.slice(2);
+try {
+  const store = new MockStore(option(argv, "seed") ?? DEFAULT_SEED_PATH, option(argv, "state"));
+  await createMockServer(store).connect(new StdioServerTransport());
+} catch (error) {
+  // stdout carries the protocol, so report on stderr
+  console.error(`mock-server: ${(error as Error).message}`);
+  process.exit(1);
+}
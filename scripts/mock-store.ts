@@ -0,0 +1,471 @@
+/**
+ * Mock Store
+ *
+ * In-memory Shopify dataset behind the mock MCP server: cursor pagination,
+ * Shopify-style search queries, and the writes the client performs
+ * (order/customer/product updates, fulfillments, returns).
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { dirname } from "path";
+
+type Entity = Record<string, any>;
+
+export interface MockDataset {
+  orders: Entity[];
+  customers: Entity[];
+  products: Entity[];
+}
+
+export interface Page<K extends string> {
+  items: Entity[];
+  key: K;
+  pageInfo: { hasNextPage: boolean; endCursor: string | null };
+}
+
+type FieldResolver = (entity: Entity) => unknown;
+
+// Query fields per entity type, as accepted by Shopify's search syntax
+const ORDER_FIELDS: Record<string, FieldResolver> = {
+  id: (o) => numericId(o.id),
+  name: (o) => [o.name, orderNumber(o.name)],
+  email: (o) => [o.email, o.customer?.email],
+  tag: (o) => o.tags,
+  created_at: (o) => o.createdAt,
+  updated_at: (o) => o.updatedAt ?? o.createdAt,
+  financial_status: (o) => o.financialStatus,
+  fulfillment_status: (o) => o.fulfillmentStatus,
+  status: (o) => orderStatus(o),
+  sku: (o) => (o.lineItems ?? []).map((item: Entity) => item.sku),
+  customer_id: (o) => numericId(o.customer?.id),
+};
+
+const CUSTOMER_FIELDS: Record<string, FieldResolver> = {
+  id: (c) => numericId(c.id),
+  email: (c) => c.email,
+  phone: (c) => c.phone,
+  first_name: (c) => c.firstName,
+  last_name: (c) => c.lastName,
+  tag: (c) => c.tags,
+  created_at: (c) => c.createdAt,
+};
+
+const PRODUCT_FIELDS: Record<string, FieldResolver> = {
+  id: (p) => numericId(p.id),
+  title: (p) => p.title,
+  vendor: (p) => p.vendor,
+  product_type: (p) => p.productType,
+  status: (p) => p.status,
+  tag: (p) => p.tags,
+  sku: (p) => (p.variants ?? []).map((v: Entity) => v.sku),
+};
+
+export class MockStore {
+  private data: MockDataset;
+
+  /**
+   * @param seedPath - JSON file with orders, customers and products arrays
+   * @param statePath - If set, writes are saved here and reloaded on the next start,
+   *   so the sandbox survives the server restarting with each CLI run
+   */
+  constructor(seedPath: string, private readonly statePath?: string) {
+    const source = statePath && existsSync(statePath) ? statePath : seedPath;
+    const raw = JSON.parse(readFileSync(source, "utf-8")) as Partial<MockDataset>;
+    this.data = {
+      orders: (raw.orders ?? []).map(normalizeOrder),
+      customers: (raw.customers ?? []).map((c) => ({ tags: [], ...c })),
+      products: (raw.products ?? []).map((p) => ({ tags: [], variants: [], ...p })),
+    };
+  }
+
+  // ============================================
+  // READS
+  // ============================================
+
+  listOrders(options: {
+    first?: number;
+    after?: string;
+    status?: string;
+    sortKey?: string;
+    reverse?: boolean;
+    query?: string;
+  }): Page<"orders"> {
+    const status = options.status?.toLowerCase();
+    const matching = this.data.orders
+      .filter((o) => !status || status === "any" || orderStatus(o) === status)
+      .filter((o) => matchesQuery(o, options.query, ORDER_FIELDS, orderText));
+    const sorted = sortOrders(matching, options.sortKey ?? "ID", options.reverse ?? false);
+    return paginate("orders", sorted.map((o) => this.withCustomer(o)), options.first, options.after);
+  }
+
+  getOrder(orderId: string): Entity {
+    return this.withCustomer(this.findOrderById(orderId));
+  }
+
+  listCustomerOrders(customerId: string, limit?: number): Page<"orders"> {
+    const id = numericId(customerId);
+    const orders = this.data.orders.filter((o) => numericId(o.customer?.id) === id);
+    return paginate("orders", sortOrders(orders, "CREATED_AT", true).map((o) => this.withCustomer(o)), limit);
+  }
+
+  listCustomers(options: { searchQuery?: string; limit?: number; after?: string }): Page<"customers"> {
+    const matching = this.data.customers.filter((c) => matchesQuery(c, options.searchQuery, CUSTOMER_FIELDS, customerText));
+    return paginate("customers", matching, options.limit, options.after);
+  }
+
+  listProducts(options: { searchTitle?: string; limit?: number; after?: string }): Page<"products"> {
+    const matching = this.data.products.filter((p) => matchesQuery(p, options.searchTitle, PRODUCT_FIELDS, productText));
+    return paginate("products", matching, options.limit, options.after);
+  }
+
+  getProduct(productId: string): Entity {
+    return this.findById(this.data.products, productId, "Product");
+  }
+
+  // ============================================
+  // WRITES
+  // ============================================
+
+  updateOrder(id: string, updates: Entity): Entity {
+    const order = this.findOrderById(id);
+    const { tags, shippingAddress, ...rest } = updates;
+    Object.assign(order, rest);
+    if (tags !== undefined) order.tags = splitTags(tags);
+    if (shippingAddress) order.shippingAddress = { ...order.shippingAddress, ...shippingAddress };
+    return this.saved(() => this.withCustomer(order));
+  }
+
+  updateCustomer(id: string, updates: Entity): Entity {
+    const customer = this.findById(this.data.customers, id, "Customer");
+    Object.assign(customer, updates, updates.tags !== undefined ? { tags: splitTags(updates.tags) } : {});
+    return this.saved(() => customer);
+  }
+
+  createProduct(input: Entity): Entity {
+    const product = {
+      id: `gid://shopify/Product/${this.nextId(this.data.products)}`,
+      handle: input.title.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, ""),
+      status: "ACTIVE",
+      variants: [],
+      createdAt: now(),
+      ...input,
+      tags: splitTags(input.tags ?? []),
+    };
+    this.data.products.push(product);
+    return this.saved(() => product);
+  }
+
+  updateProduct(id: string, updates: Entity): Entity {
+    const product = this.getProduct(id);
+    Object.assign(product, updates, updates.tags !== undefined ? { tags: splitTags(updates.tags) } : {});
+    return this.saved(() => product);
+  }
+
+  createFulfillment(input: {
+    orderNumber: string;
+    trackingNumber: string;
+    trackingCompany?: string;
+    trackingUrl?: string;
+    lineItems?: Array<{ sku: string; quantity: number }>;
+  }): Entity {
+    const order = this.findOrderByNumber(input.orderNumber);
+    if (order.cancelledAt) throw new Error(`Order ${order.name} is cancelled`);
+
+    const open = order.lineItems.filter((item: Entity) => item.fulfillableQuantity > 0);
+    if (open.length === 0) throw new Error(`Order ${order.name} has no unfulfilled items`);
+
+    const requested = input.lineItems ?? open.map((item: Entity) => ({ sku: item.sku, quantity: item.fulfillableQuantity }));
+    for (const { sku, quantity } of requested) {
+      const item = open.find((i: Entity) => i.sku === sku);
+      if (!item) throw new Error(`SKU ${sku} has nothing left to fulfill on order ${order.name}`);
+      if (quantity > item.fulfillableQuantity) {
+        throw new Error(`Only ${item.fulfillableQuantity} of SKU ${sku} left to fulfill on order ${order.name}`);
+      }
+    }
+    for (const { sku, quantity } of requested) {
+      open.find((i: Entity) => i.sku === sku).fulfillableQuantity -= quantity;
+    }
+
+    const fulfillment = {
+      id: `gid://shopify/Fulfillment/${this.nextId(this.data.orders.flatMap((o) => o.fulfillments))}`,
+      status: "SUCCESS",
+      createdAt: now(),
+      trackingInfo: [{ number: input.trackingNumber, company: input.trackingCompany ?? null, url: input.trackingUrl ?? null }],
+      fulfillmentLineItems: requested,
+    };
+    order.fulfillments.push(fulfillment);
+    order.fulfillmentStatus = order.lineItems.every((item: Entity) => item.fulfillableQuantity === 0)
+      ? "FULFILLED"
+      : "PARTIALLY_FULFILLED";
+    order.updatedAt = now();
+    return this.saved(() => ({ order: { id: order.id, name: order.name }, fulfillment }));
+  }
+
+  updateFulfillmentTracking(input: {
+    fulfillmentId: string;
+    trackingNumber: string;
+    trackingCompany?: string;
+    trackingUrl?: string;
+  }): Entity {
+    for (const order of this.data.orders) {
+      const fulfillment = order.fulfillments.find((f: Entity) => f.id === input.fulfillmentId);
+      if (!fulfillment) continue;
+      fulfillment.trackingInfo = [{ number: input.trackingNumber, company: input.trackingCompany ?? null, url: input.trackingUrl ?? null }];
+      fulfillment.updatedAt = order.updatedAt = now();
+      return this.saved(() => ({ fulfillment }));
+    }
+    throw new Error(`Fulfillment not found: ${input.fulfillmentId}`);
+  }
+
+  createReturn(input: { orderNumber: string; lineItems?: Array<{ sku: string; quantity: number }>; returnReason?: string }): Entity {
+    const order = this.findOrderByNumber(input.orderNumber);
+    const fulfilled = new Map<string, number>();
+    for (const line of order.fulfillments.flatMap((f: Entity) => f.fulfillmentLineItems ?? [])) {
+      fulfilled.set(line.sku, (fulfilled.get(line.sku) ?? 0) + line.quantity);
+    }
+    if (fulfilled.size === 0) throw new Error(`Order ${order.name} has no fulfilled items to return`);
+
+    const lineItems = input.lineItems ?? [...fulfilled].map(([sku, quantity]) => ({ sku, quantity }));
+    for (const { sku, quantity } of lineItems) {
+      if ((fulfilled.get(sku) ?? 0) < quantity) throw new Error(`SKU ${sku} was not fulfilled ${quantity} time(s) on order ${order.name}`);
+    }
+
+    const ret = {
+      id: `gid://shopify/Return/${this.nextId(this.data.orders.flatMap((o) => o.returns))}`,
+      name: `${order.name}-R${order.returns.length + 1}`,
+      status: "OPEN",
+      createdAt: now(),
+      returnReason: input.returnReason ?? "OTHER",
+      returnLineItems: lineItems,
+      reverseDeliveries: [],
+    };
+    order.returns.push(ret);
+    order.updatedAt = now();
+    return this.saved(() => ({ return: ret }));
+  }
+
+  createReverseDelivery(input: {
+    returnId: string;
+    trackingNumber: string;
+    trackingCompany?: string;
+    trackingUrl?: string;
+    labelUrl?: string;
+  }): Entity {
+    const ret = this.data.orders.flatMap((o) => o.returns).find((r: Entity) => r.id === input.returnId);
+    if (!ret) throw new Error(`Return not found: ${input.returnId}`);
+
+    const delivery = {
+      id: `gid://shopify/ReverseDelivery/${this.nextId(this.data.orders.flatMap((o) => o.returns.flatMap((r: Entity) => r.reverseDeliveries ?? [])))}`,
+      createdAt: now(),
+      tracking: { number: input.trackingNumber, company: input.trackingCompany ?? null, url: input.trackingUrl ?? null },
+      labelUrl: input.labelUrl ?? null,
+    };
+    (ret.reverseDeliveries ??= []).push(delivery);
+    return this.saved(() => ({ reverseDelivery: delivery }));
+  }
+
+  // ============================================
+  // HELPERS
+  // ============================================
+
+  /**
+   * Persists state after a write and builds the tool response.
+   */
+  private saved<T>(respond: () => T): T {
+    if (this.statePath) {
+      mkdirSync(dirname(this.statePath), { recursive: true });
+      writeFileSync(this.statePath, JSON.stringify(this.data, null, 2) + "\n");
+    }
+    return respond();
+  }
+
+  /**
+   * Embeds the current customer record, so customer edits show up in orders.
+   */
+  private withCustomer(order: Entity): Entity {
+    if (!order.customer?.id) return order;
+    const customer = this.data.customers.find((c) => numericId(c.id) === numericId(order.customer.id));
+    return customer ? { ...order, customer } : order;
+  }
+
+  private findOrderById(id: string): Entity {
+    return this.findById(this.data.orders, id, "Order");
+  }
+
+  private findOrderByNumber(reference: string): Entity {
+    if (reference.startsWith("gid://")) return this.findOrderById(reference);
+    const number = orderNumber(reference);
+    const order = this.data.orders.find((o) => orderNumber(o.name) === number);
+    if (!order) throw new Error(`Order not found: ${reference}`);
+    return order;
+  }
+
+  private findById(entities: Entity[], id: string, type: string): Entity {
+    const entity = entities.find((e) => numericId(e.id) === numericId(id));
+    if (!entity) throw new Error(`${type} not found: ${id}`);
+    return entity;
+  }
+
+  private nextId(entities: Entity[]): number {
+    return Math.max(1000, ...entities.map((e) => Number(numericId(e.id)) || 0)) + 1;
+  }
+}
+
+/**
+ * Whether an entity matches a Shopify-style search query.
+ *
+ * Supports `field:value`, `field:>value` (also >=, <, <=) on dates and
+ * numbers, `value*` prefixes, quoted values, `-field:value` or `NOT` to
+ * negate, `OR` between groups, and bare words matched against text fields.
+ */
+export function matchesQuery(
+  entity: Entity,
+  query: string | undefined,
+  fields: Record<string, FieldResolver>,
+  text: (entity: Entity) => string[]
+): boolean {
+  if (!query?.trim()) return true;
+
+  return query.split(/\s+OR\s+/).some((group) => {
+    const tokens = group.match(/-?(?:[\w.]+:)?(?:[<>]=?)?(?:"[^"]*"|\S+)/g) ?? [];
+    let negateNext = false;
+
+    return tokens.every((token) => {
+      if (token === "AND") return true;
+      if (token === "NOT") {
+        negateNext = true;
+        return true;
+      }
+      const negate = negateNext || (token.startsWith("-") && token.length > 1);
+      negateNext = false;
+      return matchesTerm(entity, token.replace(/^-/, ""), fields, text) !== negate;
+    });
+  });
+}
+
+function matchesTerm(
+  entity: Entity,
+  term: string,
+  fields: Record<string, FieldResolver>,
+  text: (entity: Entity) => string[]
+): boolean {
+  const match = term.match(/^([\w.]+):([<>]=?)?(.*)$/);
+  if (!match) {
+    const word = unquote(term).toLowerCase();
+    return text(entity).some((value) => value?.toLowerCase().includes(word));
+  }
+
+  const [, field, operator, rawValue] = match;
+  const resolve = fields[field];
+  if (!resolve) return false;  // Shopify ignores unknown fields; matching nothing makes typos obvious
+  const value = unquote(rawValue);
+  const candidates = [resolve(entity)].flat().filter((v) => v !== undefined && v !== null).map(String);
+
+  if (operator) return candidates.some((candidate) => compare(candidate, operator, value));
+  if (value.endsWith("*")) {
+    const prefix = value.slice(0, -1).toLowerCase();
+    return candidates.some((candidate) => candidate.toLowerCase().startsWith(prefix));
+  }
+  return candidates.some((candidate) => candidate.toLowerCase() === value.toLowerCase());
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function compare(candidate: string, operator: string, value: string): boolean {
+  const asDates = [Date.parse(candidate), Date.parse(value)];
+  const [a, b] = /^\d{4}-\d{2}-\d{2}/.test(value) && asDates.every(Number.isFinite)
+    ? asDates
+    : [Number(candidate), Number(value)];
+  if (!Number.isFinite(a) || !Number.isFinite(b)) return false;
+  // Like Shopify, a bare date covers the whole day: <=2025-06-30 includes that day's orders
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value) && (operator === "<=" || operator === ">")) {
+    return operator === "<=" ? a < b + DAY_MS : a >= b + DAY_MS;
+  }
+  switch (operator) {
+    case ">": return a > b;
+    case ">=": return a >= b;
+    case "<": return a < b;
+    default: return a <= b;
+  }
+}
+
+function paginate<K extends string>(key: K, entities: Entity[], first = 50, after?: string): Page<K> {
+  const start = after ? Number(Buffer.from(after, "base64").toString("utf-8")) : 0;
+  if (!Number.isInteger(start) || start < 0) throw new Error(`Invalid cursor: ${after}`);
+  const end = start + Math.min(first, 250);
+  return {
+    key,
+    items: entities.slice(start, end),
+    pageInfo: {
+      hasNextPage: end < entities.length,
+      endCursor: end < entities.length ? Buffer.from(String(end)).toString("base64") : null,
+    },
+  };
+}
+
+function sortOrders(orders: Entity[], sortKey: string, reverse: boolean): Entity[] {
+  const value: Record<string, FieldResolver> = {
+    CREATED_AT: (o) => o.createdAt ?? "",
+    UPDATED_AT: (o) => o.updatedAt ?? o.createdAt ?? "",
+    ORDER_NUMBER: (o) => Number(orderNumber(o.name)),
+    TOTAL_PRICE: (o) => Number(o.totalPrice?.amount ?? o.totalPrice ?? 0),
+    ID: (o) => Number(numericId(o.id)),
+  };
+  const key = value[sortKey.toUpperCase()] ?? value.ID;
+  const sorted = [...orders].sort((a, b) => {
+    const [x, y] = [key(a) as string | number, key(b) as string | number];
+    return x < y ? -1 : x > y ? 1 : 0;
+  });
+  return reverse ? sorted.reverse() : sorted;
+}
+
+function normalizeOrder(order: Entity): Entity {
+  return {
+    tags: [],
+    fulfillments: [],
+    returns: [],
+    ...order,
+    lineItems: (order.lineItems ?? []).map((item: Entity) => ({
+      fulfillableQuantity: item.quantity,
+      ...item,
+    })),
+  };
+}
+
+function orderStatus(order: Entity): string {
+  if (order.cancelledAt) return "cancelled";
+  return order.closedAt ? "closed" : "open";
+}
+
+function orderText(o: Entity): string[] {
+  return [o.name, o.email, o.note, o.customer?.firstName, o.customer?.lastName, ...(o.tags ?? [])];
+}
+
+function customerText(c: Entity): string[] {
+  return [c.firstName, c.lastName, c.email, c.phone, ...(c.tags ?? [])];
+}
+
+function productText(p: Entity): string[] {
+  return [p.title, p.vendor, p.productType];
+}
+
+function orderNumber(name: string | undefined): string | undefined {
+  return name?.trim().match(/(\d+)$/)?.[1];
+}
+
+function numericId(id: string | undefined): string | undefined {
+  return id?.match(/(\d+)$/)?.[1];
+}
+
+function splitTags(tags: string | string[]): string[] {
+  const list = Array.isArray(tags) ? tags : tags.split(",");
+  return list.map((t) => t.trim()).filter(Boolean);
+}
+
+function unquote(value: string): string {
+  return value.replace(/^"(.*)"$/, "$1");
+}
+
+function now(): string {
+  return new Date().toISOString();
+}
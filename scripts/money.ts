@@ -0,0 +1,63 @@
+/**
+ * Money Helpers
+ *
+ * Reads amounts and currencies from orders for the reporting commands.
+ * Servers return money as { amount, currencyCode }, plain strings or
+ * MoneyBags ({ shopMoney }), and order totals under varying field names.
+ */
+
+import type { Order } from "./schemas.js";
+
+// Field names vary by server version; the first one present is used
+const ORDER_MONEY_FIELDS = {
+  subtotal: ["subtotalPrice", "subtotalPriceSet", "currentSubtotalPriceSet"],
+  total: ["totalPrice", "totalPriceSet", "currentTotalPriceSet"],
+  discounts: ["totalDiscounts", "totalDiscountsSet", "currentTotalDiscountsSet"],
+  refunds: ["totalRefunded", "totalRefundedSet"],
+  shipping: ["totalShippingPrice", "totalShippingPriceSet", "currentShippingPriceSet"],
+  tax: ["totalTax", "totalTaxSet", "currentTotalTaxSet"],
+};
+
+export type OrderMoneyField = keyof typeof ORDER_MONEY_FIELDS;
+
+/**
+ * Reads an amount from a plain number/string, { amount }, or a MoneyBag ({ shopMoney }).
+ */
+export function moneyAmount(value: unknown): number {
+  if (typeof value === "number") return value;
+  if (typeof value === "string") return Number(value) || 0;
+  if (value && typeof value === "object") {
+    const money = value as { amount?: unknown; shopMoney?: unknown };
+    if (money.shopMoney !== undefined) return moneyAmount(money.shopMoney);
+    if (money.amount !== undefined) return moneyAmount(money.amount);
+  }
+  return 0;
+}
+
+/**
+ * Reads one of an order's money totals; 0 when the server didn't return it.
+ */
+export function orderMoney(order: Order, field: OrderMoneyField): number {
+  const raw = order as Record<string, unknown>;
+  const name = ORDER_MONEY_FIELDS[field].find((f) => raw[f] != null);
+  return name ? moneyAmount(raw[name]) : 0;
+}
+
+/**
+ * The currency an order was charged in, or "(unknown)".
+ */
+export function orderCurrency(order: Order): string {
+  const raw = order as Record<string, any>;
+  const total = order.totalPrice;
+  return (typeof total === "object" && total?.currencyCode)
+    || raw.currencyCode
+    || raw.totalPriceSet?.shopMoney?.currencyCode
+    || "(unknown)";
+}
+
+/**
+ * Rounds to cents, dropping floating-point noise from sums.
+ */
+export function roundMoney(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
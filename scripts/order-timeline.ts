@@ -0,0 +1,351 @@
+/**
+ * Order Timeline
+ *
+ * One chronological view of an order: creation, payments, fulfillments and
+ * their tracking, returns, reverse deliveries, refunds and cancellation,
+ * from the order as the server returns it, plus the tag, note and other
+ * changes this CLI made to it, from the local audit journal.
+ */
+
+import type { AuditEntry } from "./audit-log.js";
+import { orderNumberOf, type ShopifyMCPClient } from "./mcp-client.js";
+import { moneyAmount, orderCurrency, orderMoney } from "./money.js";
+import type { Order } from "./schemas.js";
+
+export type TimelineEventType =
+  | "created"
+  | "payment"
+  | "refund"
+  | "fulfillment"
+  | "tracking"
+  | "delivery"
+  | "return"
+  | "reverse-delivery"
+  | "tags"
+  | "note"
+  | "update"
+  | "cancelled"
+  | "closed";
+
+export interface TimelineEvent {
+  /** Events whose time doesn't parse are listed last */
+  at: string;
+  type: TimelineEventType;
+  summary: string;
+  /** "order" for the server's data, "audit" for this CLI's journal */
+  source: "order" | "audit";
+  /** The server didn't report when this happened; `at` is the closest known time */
+  approximate?: boolean;
+  /** Fulfillment, return or reverse delivery GID, or the audit entry ID */
+  ref?: string;
+}
+
+export interface OrderTimeline {
+  order: {
+    id: string;
+    name: string;
+    financialStatus: string | null;
+    fulfillmentStatus: string | null;
+    total: string | null;
+  };
+  /** Oldest first */
+  events: TimelineEvent[];
+}
+
+// Order fields outside the schema, read when the server returns them
+interface Transaction {
+  kind?: string;
+  status?: string | null;
+  processedAt?: string | null;
+  createdAt?: string | null;
+  amountSet?: unknown;
+  amount?: unknown;
+  gateway?: string | null;
+}
+
+interface Refund {
+  id?: string;
+  createdAt?: string | null;
+  processedAt?: string | null;
+  totalRefundedSet?: unknown;
+  totalRefunded?: unknown;
+  note?: string | null;
+}
+
+interface FulfillmentEvent {
+  status?: string;
+  happenedAt?: string | null;
+  createdAt?: string | null;
+  message?: string | null;
+}
+
+interface Tracking {
+  number?: string | null;
+  company?: string | null;
+}
+
+interface ReverseDelivery {
+  id?: string;
+  createdAt?: string | null;
+  tracking?: Tracking | null;
+  deliverable?: { tracking?: Tracking | null } | null;
+}
+
+// Transaction kinds that move money in and out of the order
+const PAYMENT_KINDS: Record<string, string> = {
+  SALE: "Payment",
+  CAPTURE: "Payment captured",
+  AUTHORIZATION: "Payment authorized",
+  VOID: "Authorization voided",
+  REFUND: "Refund",
+};
+
+// Financial statuses that imply the order was paid, for servers that omit transactions
+const PAID_STATUSES = new Set(["PAID", "PARTIALLY_PAID", "PARTIALLY_REFUNDED", "REFUNDED"]);
+
+/**
+ * Builds an order's timeline from the order and the local audit journal.
+ *
+ * @param order - Order as returned by getOrderById/findOrder
+ */
+export function buildOrderTimeline(client: ShopifyMCPClient, order: Order): OrderTimeline {
+  const events = [...orderEvents(order), ...auditEvents(journalEntries(client, order))];
+  events.sort(byTime);
+
+  const total = orderMoney(order, "total");
+  return {
+    order: {
+      id: order.id,
+      name: order.name,
+      financialStatus: order.financialStatus ?? null,
+      fulfillmentStatus: order.fulfillmentStatus ?? null,
+      total: order.totalPrice != null ? `${formatAmount(total)} ${orderCurrency(order)}` : null,
+    },
+    events,
+  };
+}
+
+function orderEvents(order: Order): TimelineEvent[] {
+  const raw = order as Record<string, any>;
+  const currency = orderCurrency(order);
+  const money = (value: unknown) => `${formatAmount(moneyAmount(value))} ${currency}`;
+  const events: TimelineEvent[] = [];
+  // Takes `condition && event`, skipping events whose time is unknown
+  const add = (event: (Omit<TimelineEvent, "source" | "at"> & { at?: string | null }) | false | "" | null | undefined) => {
+    if (event && event.at) events.push({ ...event, at: event.at, source: "order" });
+  };
+  const created = order.createdAt ?? raw.processedAt;
+  const lastChange = raw.updatedAt ?? created;
+
+  const items = order.lineItems.reduce((sum, item) => sum + item.quantity, 0);
+  add(created && {
+    at: created,
+    type: "created",
+    summary: `Placed: ${items} item${items === 1 ? "" : "s"}${order.totalPrice != null ? `, ${money(order.totalPrice)}` : ""}`,
+  });
+
+  // Payments and refunds
+  const transactions = nodes<Transaction>(raw.transactions)
+    .filter((t) => PAYMENT_KINDS[String(t.kind).toUpperCase()] && (!t.status || String(t.status).toUpperCase() === "SUCCESS"));
+  const refunds = nodes<Refund>(raw.refunds);
+  for (const t of transactions) {
+    const kind = String(t.kind).toUpperCase();
+    // Refund records carry the note and line items, so they win over refund transactions
+    if (kind === "REFUND" && refunds.length) continue;
+    add({
+      at: t.processedAt ?? t.createdAt,
+      type: kind === "REFUND" ? "refund" : "payment",
+      summary: `${PAYMENT_KINDS[kind]} ${money(t.amountSet ?? t.amount)}${t.gateway ? ` via ${t.gateway}` : ""}`,
+    });
+  }
+  if (!transactions.some((t) => String(t.kind).toUpperCase() !== "REFUND")) {
+    const status = order.financialStatus?.toUpperCase();
+    if (status && PAID_STATUSES.has(status)) {
+      add({ at: raw.processedAt ?? created, type: "payment", summary: "Paid", approximate: true });
+    } else if (status === "AUTHORIZED") {
+      add({ at: raw.processedAt ?? created, type: "payment", summary: "Payment authorized", approximate: true });
+    }
+  }
+  for (const refund of refunds) {
+    const amount = refund.totalRefundedSet ?? refund.totalRefunded;
+    add({
+      at: refund.createdAt ?? refund.processedAt,
+      type: "refund",
+      summary: `Refunded${amount != null ? ` ${money(amount)}` : ""}${refund.note ? `: ${refund.note}` : ""}`,
+      ref: refund.id,
+    });
+  }
+  const refunded = orderMoney(order, "refunds");
+  if (refunded > 0 && !refunds.length && !transactions.some((t) => String(t.kind).toUpperCase() === "REFUND")) {
+    add({ at: lastChange, type: "refund", summary: `Refunded ${formatAmount(refunded)} ${currency} in total`, approximate: true });
+  }
+
+  // Fulfillments and their tracking
+  for (const fulfillment of order.fulfillments) {
+    const f = fulfillment as Record<string, any>;
+    const units = nodes<{ quantity?: number }>(f.fulfillmentLineItems).reduce((sum, line) => sum + (line.quantity ?? 0), 0);
+    add(fulfillment.createdAt && {
+      at: fulfillment.createdAt,
+      type: "fulfillment",
+      summary: `Fulfilled${units ? ` ${units} item${units === 1 ? "" : "s"}` : ""}${trackingText(fulfillment.trackingInfo[0])}`,
+      ref: fulfillment.id,
+    });
+    const fulfillmentEvents = nodes<FulfillmentEvent>(f.events);
+    for (const event of fulfillmentEvents) {
+      add({
+        at: event.happenedAt ?? event.createdAt,
+        type: String(event.status).toUpperCase() === "DELIVERED" ? "delivery" : "tracking",
+        summary: `${statusText(event.status)}${event.message ? `: ${event.message}` : ""}`,
+        ref: fulfillment.id,
+      });
+    }
+    if (!fulfillmentEvents.length) {
+      add(f.inTransitAt && { at: f.inTransitAt, type: "tracking", summary: "In transit", ref: fulfillment.id });
+      add(f.deliveredAt && { at: f.deliveredAt, type: "delivery", summary: "Delivered", ref: fulfillment.id });
+      add(!f.inTransitAt && !f.deliveredAt && f.updatedAt && f.updatedAt !== fulfillment.createdAt && {
+        at: f.updatedAt,
+        type: "tracking",
+        summary: `Fulfillment updated${trackingText(fulfillment.trackingInfo[0])}`,
+        ref: fulfillment.id,
+      });
+    }
+  }
+
+  // Returns and reverse deliveries; some servers don't date them
+  for (const ret of order.returns) {
+    const r = ret as Record<string, any>;
+    const opened = r.createdAt ?? r.requestedAt;
+    add({
+      at: opened ?? lastChange,
+      type: "return",
+      summary: `Return ${ret.name ? `${ret.name} ` : ""}opened${r.returnReason ? ` (${statusText(r.returnReason)})` : ""}`,
+      approximate: !opened || undefined,
+      ref: ret.id,
+    });
+    add(r.closedAt && { at: r.closedAt, type: "return", summary: `Return ${ret.name ? `${ret.name} ` : ""}closed`, ref: ret.id });
+    for (const delivery of nodes<ReverseDelivery>(r.reverseDeliveries)) {
+      const tracking = delivery.tracking ?? delivery.deliverable?.tracking;
+      add({
+        at: delivery.createdAt ?? opened ?? lastChange,
+        type: "reverse-delivery",
+        summary: `Return shipment${trackingText(tracking)}`,
+        approximate: !delivery.createdAt || undefined,
+        ref: delivery.id,
+      });
+    }
+  }
+
+  add(raw.cancelledAt && {
+    at: raw.cancelledAt,
+    type: "cancelled",
+    summary: `Cancelled${raw.cancelReason ? ` (${statusText(raw.cancelReason)})` : ""}`,
+  });
+  add(raw.closedAt && { at: raw.closedAt, type: "closed", summary: "Closed" });
+
+  return events;
+}
+
+// Journaled under the order reference the caller passed ("1234", "#ORD1234", ...)
+const ORDER_NUMBER_COMMANDS = new Set(["create-fulfillment", "create-return"]);
+
+/**
+ * Journal entries for the store that wrote to this order or to one of its
+ * fulfillments or returns, which are journaled under their own IDs.
+ */
+function journalEntries(client: ShopifyMCPClient, order: Order): AuditEntry[] {
+  const number = orderNumberOf(order.name);
+  const refs = new Set<string>([
+    order.id,
+    order.id.split("/").pop()!,
+    ...order.fulfillments.map((f) => f.id),
+    ...order.returns.map((r) => r.id),
+  ]);
+  const store = client.getStoreName();
+  return client.getAuditLog().filter((entry) =>
+    entry.store === store && (
+      refs.has(entry.entityId) ||
+      (ORDER_NUMBER_COMMANDS.has(entry.command) && number !== undefined && orderNumberOf(entry.entityId) === number)
+    ));
+}
+
+function auditEvents(entries: AuditEntry[]): TimelineEvent[] {
+  return entries.flatMap((entry) => {
+    const args = entry.args as Record<string, any>;
+    const prefix = entry.undoOf ? "Undo: " : "";
+    const suffix = entry.error ? ` (failed: ${entry.error})` : "";
+    const event = (type: TimelineEventType, summary: string): TimelineEvent =>
+      ({ at: entry.timestamp, type, summary: `${prefix}${summary}${suffix}`, source: "audit", ref: entry.id });
+
+    switch (entry.command) {
+      case "update-order": {
+        const events: TimelineEvent[] = [];
+        const { tags, note, ...rest } = args;
+        if (tags !== undefined) {
+          const before: string[] = (entry.before as Order | null)?.tags ?? [];
+          const after = String(tags).split(",").map((t) => t.trim()).filter(Boolean);
+          const changes = [
+            ...after.filter((t) => !before.includes(t)).map((t) => `+${t}`),
+            ...before.filter((t) => !after.includes(t)).map((t) => `-${t}`),
+          ];
+          events.push(event("tags", `Tags ${changes.length ? changes.join(" ") : "unchanged"}`));
+        }
+        if (note !== undefined) events.push(event("note", note ? `Note: ${note}` : "Note cleared"));
+        const fields = Object.keys(rest);
+        if (fields.length) events.push(event("update", `Updated ${fields.join(", ")}`));
+        return events;
+      }
+      case "create-fulfillment":
+        return [event("fulfillment", `Fulfillment requested${trackingText(trackingArgs(args))}`)];
+      case "update-fulfillment-tracking":
+        return [event("tracking", `Tracking changed${trackingText(trackingArgs(args))}`)];
+      case "create-return":
+        return [event("return", `Return requested${args.returnReason ? ` (${statusText(args.returnReason)})` : ""}`)];
+      case "create-reverse-delivery":
+        return [event("reverse-delivery", `Return shipment created${trackingText(trackingArgs(args))}`)];
+      default:
+        return [event("update", entry.command)];
+    }
+  });
+}
+
+function trackingArgs(args: Record<string, any>): { number?: string; company?: string } {
+  return { number: args.trackingNumber, company: args.trackingCompany };
+}
+
+function trackingText(tracking: Tracking | null | undefined): string {
+  if (!tracking?.number) return "";
+  return `: ${[tracking.company, tracking.number].filter(Boolean).join(" ")}`;
+}
+
+/**
+ * "IN_TRANSIT" -> "in transit"
+ */
+function statusText(status: unknown): string {
+  return String(status).toLowerCase().replace(/_/g, " ");
+}
+
+function formatAmount(amount: number): string {
+  return amount.toFixed(2);
+}
+
+/**
+ * Oldest first; events whose time doesn't parse go last, in the order they were added.
+ */
+function byTime(a: TimelineEvent, b: TimelineEvent): number {
+  const [x, y] = [Date.parse(a.at), Date.parse(b.at)];
+  if (Number.isNaN(x) || Number.isNaN(y)) return Number(Number.isNaN(x)) - Number(Number.isNaN(y));
+  return x - y;
+}
+
+/**
+ * Items of a list field returned as an array, a connection ({ nodes }) or edges.
+ */
+function nodes<T>(value: unknown): T[] {
+  if (Array.isArray(value)) return value;
+  if (value && typeof value === "object") {
+    const connection = value as { nodes?: T[]; edges?: Array<{ node: T }> };
+    if (Array.isArray(connection.nodes)) return connection.nodes;
+    if (Array.isArray(connection.edges)) return connection.edges.map((edge) => edge.node);
+  }
+  return [];
+}
@@ -0,0 +1,272 @@
+/**
+ * Output Formatting
+ *
+ * Applies the global --fields and --format options to a command's result.
+ * Fields are dot-paths with [] for arrays ("lineItems[].sku") or the name
+ * of a view ("summary"). List results ({ orders: [...] }, arrays) are
+ * projected per record and become one row per record in table and CSV
+ * output; anything else is treated as a single record.
+ */
+
+import { formatCsvRow } from "./csv.js";
+import type { ShopifyMCPClient } from "./mcp-client.js";
+
+export const OUTPUT_FORMATS = ["json", "ndjson", "table", "csv", "yaml"] as const;
+
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+export interface OutputOptions {
+  format?: OutputFormat;
+  /** Field paths and view names, in output order */
+  fields?: string[];
+}
+
+type EntityType = "order" | "customer" | "product";
+
+/**
+ * Named field lists per entity type, usable in --fields.
+ */
+export const VIEWS: Record<string, Record<EntityType, string[]>> = {
+  summary: {
+    order: [
+      "id", "name", "createdAt", "email", "financialStatus", "fulfillmentStatus",
+      "totalPrice.amount", "totalPrice.currencyCode", "lineItems[].sku", "tags",
+    ],
+    customer: ["id", "firstName", "lastName", "email", "phone", "tags"],
+    product: ["id", "title", "vendor", "productType", "status", "variants[].sku", "tags"],
+  },
+};
+
+// Table cells longer than this are cut, so one long note can't stretch every row
+const MAX_TABLE_CELL = 48;
+
+/** The parts of a createCommand() entry output wrapping needs */
+interface OutputCommand {
+  handler: (args: any, client: ShopifyMCPClient) => Promise<unknown>;
+}
+
+/**
+ * Wraps every command's handler to apply output options. JSON results are
+ * returned for runCli to print as usual; runCli only prints JSON, so the
+ * other formats are written here and the process exits once they're out.
+ */
+export function withOutputOptions<T extends Record<string, OutputCommand>>(commands: T, options: OutputOptions): T {
+  const wrapped = Object.entries(commands).map(([name, command]) => [name, {
+    ...command,
+    handler: async (args: unknown, client: ShopifyMCPClient) => {
+      const result = await command.handler(args, client);
+      if (!options.format || options.format === "json") return applyFields(result, options.fields);
+
+      const text = formatOutput(result, options);
+      await client.disconnect();
+      await new Promise((resolve) => process.stdout.write(text, resolve));
+      process.exit(0);
+    },
+  }]);
+  return Object.fromEntries(wrapped) as T;
+}
+
+/**
+ * Renders a result in the given format, after applying --fields.
+ */
+export function formatOutput(result: unknown, options: OutputOptions): string {
+  const format = options.format ?? "json";
+  if (format === "json") return JSON.stringify(applyFields(result, options.fields), null, 2) + "\n";
+  if (format === "yaml") return toYaml(applyFields(result, options.fields)) + "\n";
+
+  const { records } = findRecords(result);
+  if (format === "ndjson") {
+    const lines = options.fields ? records.map((r) => projectRecord(r, resolveFields(options.fields!, r))) : records;
+    return lines.map((line) => JSON.stringify(line) + "\n").join("");
+  }
+
+  if (format === "table" && records.length === 0) return "(no results)\n";
+  const columns = tableColumns(records, options.fields);
+  const rows = records.map((record) => columns.map((column) => cellValue(record, column)));
+  if (format === "csv") return formatCsvRow(columns) + rows.map((row) => formatCsvRow(row.map(joinScalars))).join("");
+  return formatTable(columns, rows.map((row) => row.map(tableCell)));
+}
+
+/**
+ * Projects a result to the requested fields, keeping list envelopes
+ * (pageInfo, hasMore, ...) around the projected records.
+ */
+export function applyFields(result: unknown, fields: string[] | undefined): unknown {
+  if (!fields?.length) return result;
+
+  const { records, key } = findRecords(result);
+  warnUnmatched(records, fields);
+  const projected = records.map((record) => projectRecord(record, resolveFields(fields, record)));
+
+  if (Array.isArray(result)) return projected;
+  if (key) return { ...(result as Record<string, unknown>), [key]: projected };
+  return projected[0];
+}
+
+/**
+ * Locates the records in a result: the items of an array, the array in an
+ * envelope such as { orders: [...], pageInfo }, or the result itself.
+ */
+function findRecords(result: unknown): { records: unknown[]; key?: string } {
+  if (Array.isArray(result)) return { records: result };
+  // An entity's own arrays (an order's lineItems) aren't an envelope's records
+  if (isObject(result) && !entityType(result)) {
+    const lists = Object.entries(result).filter(([, value]) => Array.isArray(value) && value.every(isObject));
+    if (lists.length === 1) return { records: lists[0][1] as unknown[], key: lists[0][0] };
+  }
+  return { records: [result] };
+}
+
+/**
+ * Expands view names in a field list for the record's entity type.
+ */
+function resolveFields(fields: string[], record: unknown): string[] {
+  return fields.flatMap((field) => {
+    const view = VIEWS[field];
+    if (!view) return [field];
+    const type = entityType(record);
+    if (!type) throw new Error(`The "${field}" view applies to orders, customers and products`);
+    return view[type];
+  });
+}
+
+function entityType(record: unknown): EntityType | undefined {
+  if (!isObject(record)) return undefined;
+  if ("lineItems" in record || "financialStatus" in record || "fulfillmentStatus" in record) return "order";
+  if ("variants" in record || "productType" in record || "handle" in record) return "product";
+  if ("firstName" in record || "lastName" in record || "defaultAddress" in record) return "customer";
+  return undefined;
+}
+
+/**
+ * Copies the given paths of a record into a new object, keeping their nesting.
+ */
+function projectRecord(record: unknown, fields: string[]): unknown {
+  if (!isObject(record)) return record;
+  const target: Record<string, unknown> = {};
+  for (const field of fields) copyPath(target, record, parsePath(field));
+  return target;
+}
+
+function copyPath(target: Record<string, any>, source: Record<string, any>, path: string[]): void {
+  const [key, ...rest] = path;
+  if (!(key in source)) return;
+  const value = source[key];
+
+  if (rest.length === 0 || value === null || typeof value !== "object") {
+    target[key] = value;
+  } else if (Array.isArray(value)) {
+    // Arrays are mapped whether or not the path marks them with []
+    const items: unknown[] = (target[key] ??= value.map((item) => (isObject(item) ? {} : item)));
+    value.forEach((item, i) => {
+      if (isObject(item)) copyPath(items[i] as Record<string, unknown>, item, rest);
+    });
+  } else {
+    copyPath((target[key] ??= {}), value, rest);
+  }
+}
+
+/**
+ * Reads a path as a flat value, collecting array elements across [] segments.
+ */
+function cellValue(record: unknown, field: string): unknown {
+  const read = (value: unknown, path: string[]): unknown => {
+    if (path.length === 0) return value;
+    if (Array.isArray(value)) return value.flatMap((item) => read(item, path));
+    if (!isObject(value)) return undefined;
+    return read(value[path[0]], path.slice(1));
+  };
+  return read(record, parsePath(field));
+}
+
+function parsePath(field: string): string[] {
+  return field.replace(/\[\*?\]/g, "").split(".").filter(Boolean);
+}
+
+function tableColumns(records: unknown[], fields: string[] | undefined): string[] {
+  if (fields?.length) return resolveFields(fields, records[0]);
+
+  // Without --fields, entities get their summary view and other results their top-level keys
+  const types = new Set(records.map(entityType));
+  const [type] = types;
+  if (types.size === 1 && type) return VIEWS.summary[type];
+  const keys = new Set<string>();
+  for (const record of records) {
+    if (isObject(record)) Object.keys(record).forEach((key) => keys.add(key));
+  }
+  return keys.size ? [...keys] : ["value"];
+}
+
+/**
+ * Joins arrays of scalars (tags, SKUs) with ", "; other values pass through.
+ */
+function joinScalars(value: unknown): unknown {
+  return Array.isArray(value) && value.every((v) => v === null || typeof v !== "object") ? value.join(", ") : value;
+}
+
+function tableCell(value: unknown): string {
+  const joined = joinScalars(value);
+  let text: string;
+  if (joined === null || joined === undefined) text = "";
+  else if (typeof joined === "object") text = JSON.stringify(joined);
+  else text = String(joined);
+
+  text = text.replace(/\s*\n\s*/g, " ");
+  return text.length > MAX_TABLE_CELL ? text.slice(0, MAX_TABLE_CELL - 1) + "…" : text;
+}
+
+function formatTable(columns: string[], rows: string[][]): string {
+  const widths = columns.map((column, i) => Math.max(column.length, ...rows.map((row) => row[i].length)));
+  const line = (cells: string[]) => cells.map((cell, i) => cell.padEnd(widths[i])).join("  ").trimEnd() + "\n";
+  return line(columns) + line(widths.map((w) => "-".repeat(w))) + rows.map(line).join("");
+}
+
+function warnUnmatched(records: unknown[], fields: string[]): void {
+  const has = (value: unknown, path: string[]): boolean => {
+    if (path.length === 0) return true;
+    if (Array.isArray(value)) return value.some((item) => has(item, path));
+    return isObject(value) && path[0] in value && has(value[path[0]], path.slice(1));
+  };
+  for (const field of fields) {
+    if (VIEWS[field] || records.some((record) => has(record, parsePath(field)))) continue;
+    console.error(`Warning: --fields "${field}" matched nothing`);
+  }
+}
+
+/**
+ * Serializes JSON-compatible values as block-style YAML.
+ */
+export function toYaml(value: unknown, indent = ""): string {
+  if (Array.isArray(value)) {
+    if (value.length === 0) return "[]";
+    return value
+      .map((item) => `${indent}- ${isBlock(item) ? toYaml(item, indent + "  ").trimStart() : toYaml(item)}`)
+      .join("\n");
+  }
+  if (isObject(value)) {
+    const entries = Object.entries(value).filter(([, v]) => v !== undefined);
+    if (entries.length === 0) return "{}";
+    return entries
+      .map(([key, v]) => isBlock(v)
+        ? `${indent}${yamlString(key)}:\n${toYaml(v, indent + "  ")}`
+        : `${indent}${yamlString(key)}: ${toYaml(v)}`)
+      .join("\n");
+  }
+  if (typeof value === "string") return yamlString(value);
+  return value === undefined ? "null" : String(value);
+}
+
+function isBlock(value: unknown): boolean {
+  return (Array.isArray(value) && value.length > 0) || (isObject(value) && Object.keys(value).length > 0);
+}
+
+function yamlString(text: string): string {
+  const plain = /^[A-Za-z_/][\w .@/+-]*$/.test(text)
+    && !/^(true|false|yes|no|on|off|null|~)$/i.test(text)
+    && !/\s$/.test(text);
+  return plain ? text : JSON.stringify(text);
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,89 @@
+/**
+ * Cursor Pagination
+ *
+ * Generic async iteration over cursor-paginated MCP list tools, with an
+ * optional item cap and resumable checkpoints.
+ */
+
+import type { PageInfo } from "./schemas.js";
+
+/**
+ * Position in a paginated listing. `after` is the cursor that fetched the
+ * current page and `offset` how many of its items were already handed out.
+ */
+export interface PageCheckpoint {
+  after?: string;
+  offset: number;
+  /** True once the last item of the last page has been handed out */
+  done: boolean;
+}
+
+export interface IterateOptions {
+  /** Items per request (default: 250) */
+  pageSize?: number;
+  /** Stop after this many items */
+  max?: number;
+  /** Continue from a checkpoint reported by an earlier iteration */
+  resume?: Pick<PageCheckpoint, "after" | "offset">;
+  /** Called before each item is yielded with the position after it */
+  onCheckpoint?: (checkpoint: PageCheckpoint) => void;
+}
+
+export type PageFetcher<T> = (
+  after: string | undefined,
+  pageSize: number
+) => Promise<{ items: T[]; pageInfo?: PageInfo }>;
+
+/**
+ * Yields items across pages, following pageInfo.endCursor until the last
+ * page, `max` items, or the caller stops iterating.
+ */
+export async function* paginate<T>(fetchPage: PageFetcher<T>, options: IterateOptions = {}): AsyncGenerator<T> {
+  const pageSize = options.pageSize ?? 250;
+  let after = options.resume?.after;
+  let skip = options.resume?.offset ?? 0;
+  let yielded = 0;
+
+  while (true) {
+    if (options.max !== undefined && yielded >= options.max) return;
+
+    const { items, pageInfo } = await fetchPage(after, pageSize);
+    const hasNextPage = (pageInfo?.hasNextPage ?? false) && !!pageInfo?.endCursor;
+
+    for (let i = skip; i < items.length; i++) {
+      if (options.max !== undefined && yielded >= options.max) return;
+      yielded++;
+      options.onCheckpoint?.({
+        after,
+        offset: i + 1,
+        done: i + 1 === items.length && !hasNextPage,
+      });
+      yield items[i];
+    }
+
+    if (!hasNextPage) {
+      // Covers empty pages and resumes past the end
+      options.onCheckpoint?.({ after, offset: items.length, done: true });
+      return;
+    }
+    after = pageInfo!.endCursor!;
+    skip = 0;
+  }
+}
+
+/**
+ * Collects an iteration into an array, reporting whether more items remain.
+ */
+export async function collect<T>(
+  iterate: (options: IterateOptions) => AsyncIterable<T>,
+  options: Omit<IterateOptions, "onCheckpoint"> = {}
+): Promise<{ items: T[]; hasMore: boolean; checkpoint?: PageCheckpoint }> {
+  const items: T[] = [];
+  let checkpoint: PageCheckpoint | undefined;
+
+  for await (const item of iterate({ ...options, onCheckpoint: (cp) => (checkpoint = cp) })) {
+    items.push(item);
+  }
+
+  return { items, hasMore: checkpoint ? !checkpoint.done : false, checkpoint };
+}
@@ -0,0 +1,292 @@
+/**
+ * Sales Report
+ *
+ * Summarizes orders created in a date range: order count, gross and net
+ * sales, discounts, refunds, shipping, tax, average order value and top
+ * SKUs, optionally grouped by period, product, vendor or channel. Amounts
+ * are never added across currencies; every figure is per currency.
+ */
+
+import { buildOrderQuery } from "./export.js";
+import type { ShopifyMCPClient } from "./mcp-client.js";
+import { moneyAmount, orderCurrency, orderMoney, roundMoney } from "./money.js";
+import type { LineItem, Order } from "./schemas.js";
+
+export const SALES_GROUPINGS = ["day", "week", "month", "product", "vendor", "channel"] as const;
+
+export type SalesGrouping = (typeof SALES_GROUPINGS)[number];
+
+export interface SalesReportOptions {
+  /** First day, YYYY-MM-DD */
+  from: string;
+  /** Last day (inclusive), YYYY-MM-DD */
+  to: string;
+  groupBy?: SalesGrouping;
+  /** Extra order query, e.g. "tag:wholesale" */
+  query?: string;
+  /** SKUs listed per currency (default: 10) */
+  top?: number;
+}
+
+/**
+ * Sales figures for one currency. Shipping, tax and refunds belong to whole
+ * orders, so product and vendor groups report them as null.
+ */
+export interface SalesMetrics {
+  orders: number;
+  /** Line items at their original prices, before discounts */
+  grossSales: number;
+  discounts: number | null;
+  refunds: number | null;
+  /** grossSales - discounts - refunds */
+  netSales: number;
+  shipping: number | null;
+  tax: number | null;
+  /** (grossSales - discounts) / orders */
+  averageOrderValue: number;
+  /** Units sold; product and vendor groups only */
+  quantity?: number;
+}
+
+export interface SalesGroup extends SalesMetrics {
+  group: string;
+  currency: string;
+}
+
+export interface TopSku {
+  sku: string;
+  title: string;
+  quantity: number;
+  orders: number;
+  grossSales: number;
+}
+
+export interface SalesReport {
+  from: string;
+  to: string;
+  groupBy: SalesGrouping | null;
+  /** The range and period groups both use UTC dates, whatever the shop's timezone */
+  timezone: "UTC";
+  /** Cancelled orders in the range, left out of every figure */
+  cancelledOrders: number;
+  currencies: string[];
+  totals: Record<string, SalesMetrics>;
+  /** One row per group and currency (a single "all" group without --groupBy) */
+  groups: SalesGroup[];
+  topSkus: Record<string, TopSku[]>;
+}
+
+/** A discount's share of a line item; REST and GraphQL name the amount differently */
+interface DiscountAllocation {
+  allocatedAmount?: unknown;
+  allocatedAmountSet?: unknown;
+}
+
+interface Accumulator {
+  orders: Set<string>;
+  quantity: number;
+  grossSales: number;
+  discounts: number;
+  refunds: number;
+  shipping: number;
+  tax: number;
+}
+
+/**
+ * Builds a sales report from every order created between `from` and `to`.
+ *
+ * Refunds count against the order's creation date, not the refund date.
+ *
+ * @param client - Client to page orders through (iterateOrders, so ranges of any size fit)
+ */
+export async function buildSalesReport(client: ShopifyMCPClient, options: SalesReportOptions): Promise<SalesReport> {
+  const groupBy = options.groupBy ?? null;
+  const totals = new Map<string, Accumulator>();
+  const groups = new Map<string, Map<string, Accumulator>>();  // currency -> group -> figures
+  const skus = new Map<string, Map<string, TopSku>>();  // currency -> sku -> figures
+  let cancelledOrders = 0;
+
+  const query = buildOrderQuery({ query: options.query, from: options.from, to: options.to });
+  for await (const order of client.iterateOrders({ status: "any", query, sortKey: "CREATED_AT", reverse: false })) {
+    if (order.cancelledAt) {
+      cancelledOrders++;
+      continue;
+    }
+
+    const currency = orderCurrency(order);
+    const figures = orderFigures(order);
+    addOrder(entry(totals, currency), order, figures);
+
+    const currencyGroups = groups.get(currency) ?? groups.set(currency, new Map()).get(currency)!;
+    if (groupBy === "product" || groupBy === "vendor") {
+      for (const item of order.lineItems) {
+        const key = groupBy === "product" ? productName(item) : vendorName(item);
+        addLineItem(entry(currencyGroups, key), order, item);
+      }
+    } else {
+      addOrder(entry(currencyGroups, groupKey(order, groupBy)), order, figures);
+    }
+
+    const currencySkus = skus.get(currency) ?? skus.set(currency, new Map()).get(currency)!;
+    const skuOrders = new Set<string>();
+    for (const item of order.lineItems) {
+      const sku = item.sku || "(no SKU)";
+      const top = currencySkus.get(sku) ?? { sku, title: item.title, quantity: 0, orders: 0, grossSales: 0 };
+      top.quantity += item.quantity;
+      top.grossSales += lineItemGross(item);
+      if (!skuOrders.has(sku)) top.orders++;
+      skuOrders.add(sku);
+      currencySkus.set(sku, top);
+    }
+  }
+
+  const lineGrouping = groupBy === "product" || groupBy === "vendor";
+  const currencies = [...totals.keys()].sort();
+  return {
+    from: options.from,
+    to: options.to,
+    groupBy,
+    timezone: "UTC",
+    cancelledOrders,
+    currencies,
+    totals: Object.fromEntries(currencies.map((c) => [c, metrics(totals.get(c)!, false)])),
+    groups: currencies.flatMap((currency) =>
+      [...groups.get(currency)!]
+        .sort(([a, x], [b, y]) => (lineGrouping ? y.grossSales - x.grossSales : a.localeCompare(b)))
+        .map(([group, figures]) => ({ group, currency, ...metrics(figures, lineGrouping) }))
+    ),
+    topSkus: Object.fromEntries(currencies.map((currency) => [
+      currency,
+      [...skus.get(currency)!.values()]
+        .sort((a, b) => b.grossSales - a.grossSales || b.quantity - a.quantity)
+        .slice(0, options.top ?? 10)
+        .map((top) => ({ ...top, grossSales: roundMoney(top.grossSales) })),
+    ])),
+  };
+}
+
+interface OrderFigures {
+  grossSales: number;
+  quantity: number;
+  discounts: number;
+  refunds: number;
+  shipping: number;
+  tax: number;
+}
+
+function orderFigures(order: Order): OrderFigures {
+  const discounts = orderMoney(order, "discounts");
+  const lineTotal = order.lineItems.reduce((sum, item) => sum + lineItemGross(item), 0);
+  return {
+    // Without line prices, the subtotal (after discounts) plus discounts is the gross
+    grossSales: lineTotal || orderMoney(order, "subtotal") + discounts,
+    quantity: order.lineItems.reduce((sum, item) => sum + item.quantity, 0),
+    discounts,
+    refunds: orderMoney(order, "refunds"),
+    shipping: orderMoney(order, "shipping"),
+    tax: orderMoney(order, "tax"),
+  };
+}
+
+function addOrder(target: Accumulator, order: Order, figures: OrderFigures): void {
+  target.orders.add(order.id);
+  target.quantity += figures.quantity;
+  target.grossSales += figures.grossSales;
+  target.discounts += figures.discounts;
+  target.refunds += figures.refunds;
+  target.shipping += figures.shipping;
+  target.tax += figures.tax;
+}
+
+function addLineItem(target: Accumulator, order: Order, item: LineItem): void {
+  target.orders.add(order.id);
+  target.quantity += item.quantity;
+  target.grossSales += lineItemGross(item);
+  target.discounts += lineItemDiscount(item);
+}
+
+function metrics(figures: Accumulator, lineGrouping: boolean): SalesMetrics {
+  const orders = figures.orders.size;
+  const refunds = lineGrouping ? 0 : figures.refunds;
+  return {
+    orders,
+    grossSales: roundMoney(figures.grossSales),
+    discounts: roundMoney(figures.discounts),
+    refunds: lineGrouping ? null : roundMoney(refunds),
+    netSales: roundMoney(figures.grossSales - figures.discounts - refunds),
+    shipping: lineGrouping ? null : roundMoney(figures.shipping),
+    tax: lineGrouping ? null : roundMoney(figures.tax),
+    averageOrderValue: orders ? roundMoney((figures.grossSales - figures.discounts) / orders) : 0,
+    ...(lineGrouping ? { quantity: figures.quantity } : {}),
+  };
+}
+
+function entry(map: Map<string, Accumulator>, key: string): Accumulator {
+  let value = map.get(key);
+  if (!value) {
+    value = { orders: new Set(), quantity: 0, grossSales: 0, discounts: 0, refunds: 0, shipping: 0, tax: 0 };
+    map.set(key, value);
+  }
+  return value;
+}
+
+function groupKey(order: Order, groupBy: SalesGrouping | null): string {
+  const created = order.createdAt ?? "";
+  switch (groupBy) {
+    case "day":
+      return created.slice(0, 10);
+    case "week":
+      return weekStart(created);
+    case "month":
+      return created.slice(0, 7);
+    case "channel":
+      return channelName(order);
+    default:
+      return "all";
+  }
+}
+
+/**
+ * The Monday (UTC) of an ISO timestamp's week, as YYYY-MM-DD.
+ */
+function weekStart(timestamp: string): string {
+  const date = new Date(timestamp);
+  if (Number.isNaN(date.getTime())) return "(unknown)";
+  date.setUTCDate(date.getUTCDate() - ((date.getUTCDay() + 6) % 7));
+  return date.toISOString().slice(0, 10);
+}
+
+function channelName(order: Order): string {
+  const raw = order as Record<string, any>;
+  return raw.channelInformation?.channelDefinition?.channelName
+    ?? raw.channel?.name
+    ?? raw.channel
+    ?? raw.sourceName
+    ?? raw.app?.name
+    ?? "(unknown)";
+}
+
+function productName(item: LineItem): string {
+  const raw = item as Record<string, any>;
+  return raw.product?.title ?? raw.variant?.product?.title ?? item.title;
+}
+
+function vendorName(item: LineItem): string {
+  const raw = item as Record<string, any>;
+  return raw.vendor ?? raw.product?.vendor ?? raw.variant?.product?.vendor ?? "(unknown)";
+}
+
+function lineItemGross(item: LineItem): number {
+  const raw = item as Record<string, any>;
+  if (item.originalTotal != null) return moneyAmount(item.originalTotal);
+  const unit = raw.originalUnitPrice ?? raw.originalUnitPriceSet ?? item.variant?.price;
+  return unit != null ? moneyAmount(unit) * item.quantity : 0;
+}
+
+function lineItemDiscount(item: LineItem): number {
+  const raw = item as Record<string, any>;
+  const total = raw.totalDiscount ?? raw.totalDiscountSet;
+  if (total != null) return moneyAmount(total);
+  const allocations: DiscountAllocation[] = raw.discountAllocations ?? [];
+  return allocations.reduce((sum, a) => sum + moneyAmount(a.allocatedAmount ?? a.allocatedAmountSet), 0);
+}
@@ -0,0 +1,236 @@
+/**
+ * Shopify Domain Models
+ *
+ * Zod schemas for the payloads returned by the Shopify MCP server, with
+ * inferred TypeScript types. Schemas validate the fields the client relies
+ * on and pass everything else through untouched.
+ */
+
+import { z } from "@local/cli-utils";
+
+// ============================================
+// SHARED
+// ============================================
+
+const nullish = <T extends z.ZodTypeAny>(schema: T) => schema.nullish();
+
+/**
+ * Money as returned by the Admin API ({ amount, currencyCode }) or as a plain string.
+ */
+export const MoneySchema = z.union([
+  z.object({
+    amount: z.union([z.string(), z.number()]),
+    currencyCode: nullish(z.string()),
+  }).passthrough(),
+  z.string(),
+  z.number(),
+]);
+
+/**
+ * Tags arrive either as an array or as a comma-separated string; always normalized to an array.
+ */
+export const TagsSchema = z.preprocess(
+  (value) =>
+    typeof value === "string"
+      ? value.split(",").map((t) => t.trim()).filter(Boolean)
+      : value ?? [],
+  z.array(z.string())
+);
+
+export const PageInfoSchema = z.object({
+  hasNextPage: z.boolean(),
+  endCursor: nullish(z.string()),
+}).passthrough();
+
+export const AddressSchema = z.object({
+  address1: nullish(z.string()),
+  address2: nullish(z.string()),
+  city: nullish(z.string()),
+  province: nullish(z.string()),
+  zip: nullish(z.string()),
+  country: nullish(z.string()),
+  countryCode: nullish(z.string()),
+  phone: nullish(z.string()),
+}).passthrough();
+
+// ============================================
+// PRODUCTS
+// ============================================
+
+export const VariantSchema = z.object({
+  id: z.string(),
+  title: nullish(z.string()),
+  sku: nullish(z.string()),
+  price: nullish(MoneySchema),
+  inventoryQuantity: nullish(z.number()),
+}).passthrough();
+
+export const ProductSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  handle: nullish(z.string()),
+  vendor: nullish(z.string()),
+  productType: nullish(z.string()),
+  status: nullish(z.string()),
+  tags: TagsSchema,
+  variants: z.array(VariantSchema).default([]),
+}).passthrough();
+
+// ============================================
+// CUSTOMERS
+// ============================================
+
+export const CustomerSchema = z.object({
+  id: z.string(),
+  firstName: nullish(z.string()),
+  lastName: nullish(z.string()),
+  email: nullish(z.string()),
+  phone: nullish(z.string()),
+  note: nullish(z.string()),
+  tags: TagsSchema,
+  createdAt: nullish(z.string()),
+  defaultAddress: nullish(AddressSchema),
+}).passthrough();
+
+// ============================================
+// ORDERS
+// ============================================
+
+export const LineItemSchema = z.object({
+  id: nullish(z.string()),
+  title: z.string(),
+  quantity: z.number(),
+  sku: nullish(z.string()),
+  variant: nullish(VariantSchema.partial({ id: true })),
+  originalTotal: nullish(MoneySchema),
+}).passthrough();
+
+export const FulfillmentSchema = z.object({
+  id: z.string(),
+  status: nullish(z.string()),
+  createdAt: nullish(z.string()),
+  trackingInfo: z.array(
+    z.object({
+      number: nullish(z.string()),
+      company: nullish(z.string()),
+      url: nullish(z.string()),
+    }).passthrough()
+  ).default([]),
+}).passthrough();
+
+export const ReturnSchema = z.object({
+  id: z.string(),
+  status: nullish(z.string()),
+  name: nullish(z.string()),
+}).passthrough();
+
+export const OrderSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  email: nullish(z.string()),
+  createdAt: nullish(z.string()),
+  financialStatus: nullish(z.string()),
+  fulfillmentStatus: nullish(z.string()),
+  totalPrice: nullish(MoneySchema),
+  customer: nullish(CustomerSchema),
+  shippingAddress: nullish(AddressSchema),
+  note: nullish(z.string()),
+  tags: TagsSchema,
+  lineItems: z.array(LineItemSchema).default([]),
+  fulfillments: z.array(FulfillmentSchema).default([]),
+  returns: z.array(ReturnSchema).default([]),
+}).passthrough();
+
+// ============================================
+// RESPONSE ENVELOPES
+// ============================================
+
+/**
+ * Builds a schema for list responses, which arrive either as a bare array
+ * or wrapped as { <key>: [...], pageInfo }. Always normalized to the wrapped form.
+ */
+function pageSchema<K extends string, T extends z.ZodTypeAny>(key: K, item: T) {
+  return z.preprocess(
+    (value) => (Array.isArray(value) ? { [key]: value } : value),
+    z.object({
+      [key]: z.array(item),
+      pageInfo: PageInfoSchema.optional(),
+    } as { [P in K]: z.ZodArray<T> } & { pageInfo: z.ZodOptional<typeof PageInfoSchema> })
+  );
+}
+
+/**
+ * Builds a schema for single-entity responses, which may be wrapped as { <key>: {...} }.
+ */
+function entitySchema<T extends z.ZodTypeAny>(key: string, item: T) {
+  return z.preprocess(
+    (value) =>
+      value && typeof value === "object" && key in value
+        ? (value as Record<string, unknown>)[key]
+        : value,
+    item
+  );
+}
+
+export const OrderPageSchema = pageSchema("orders", OrderSchema);
+export const CustomerPageSchema = pageSchema("customers", CustomerSchema);
+export const ProductPageSchema = pageSchema("products", ProductSchema);
+export const OrderResponseSchema = entitySchema("order", OrderSchema);
+export const ProductResponseSchema = entitySchema("product", ProductSchema);
+export const CustomerResponseSchema = entitySchema("customer", CustomerSchema);
+
+// ============================================
+// TYPES
+// ============================================
+
+export type Money = z.infer<typeof MoneySchema>;
+export type PageInfo = z.infer<typeof PageInfoSchema>;
+export type Address = z.infer<typeof AddressSchema>;
+export type Variant = z.infer<typeof VariantSchema>;
+export type Product = z.infer<typeof ProductSchema>;
+export type Customer = z.infer<typeof CustomerSchema>;
+export type LineItem = z.infer<typeof LineItemSchema>;
+export type Fulfillment = z.infer<typeof FulfillmentSchema>;
+export type Return = z.infer<typeof ReturnSchema>;
+export type Order = z.infer<typeof OrderSchema>;
+export type OrderPage = z.infer<typeof OrderPageSchema>;
+export type CustomerPage = z.infer<typeof CustomerPageSchema>;
+export type ProductPage = z.infer<typeof ProductPageSchema>;
+
+// ============================================
+// VALIDATION
+// ============================================
+
+/**
+ * Thrown when an MCP tool response does not match the expected shape.
+ */
+export class ResponseValidationError extends Error {
+  constructor(
+    public readonly tool: string,
+    public readonly issues: z.ZodIssue[]
+  ) {
+    const details = issues
+      .slice(0, 5)
+      .map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+      .join("; ");
+    super(`Unexpected response from ${tool}: ${details}`);
+    this.name = "ResponseValidationError";
+  }
+}
+
+/**
+ * Validates and normalizes a tool response against a schema.
+ *
+ * @param tool - Tool name, used in error messages
+ * @param schema - Schema the response must satisfy
+ * @param raw - Raw parsed tool response
+ * @returns Normalized response
+ * @throws {ResponseValidationError} If the response does not match
+ */
+export function parseResponse<T extends z.ZodTypeAny>(tool: string, schema: T, raw: unknown): z.infer<T> {
+  const result = schema.safeParse(raw);
+  if (!result.success) {
+    throw new ResponseValidationError(tool, result.error.issues);
+  }
+  return result.data;
+}
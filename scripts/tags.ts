@@ -0,0 +1,93 @@
+/**
+ * Tag Operations
+ *
+ * Additive/subtractive tag edits computed against an entity's current tags.
+ * Tags are compared case-insensitively; existing tags keep their spelling
+ * and new tags are trimmed and lowercased.
+ */
+
+export type TagOperation = "add" | "remove" | "set";
+
+export interface TagChange {
+  before: string[];
+  after: string[];
+  added: string[];
+  removed: string[];
+  changed: boolean;
+}
+
+/**
+ * Normalizes a tag for storage: trimmed, inner whitespace collapsed, lowercased.
+ */
+export function normalizeTag(tag: string): string {
+  return tag.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+/**
+ * Parses a comma-separated tag list into normalized, de-duplicated tags.
+ */
+export function parseTagList(tags: string): string[] {
+  return dedupeTags(tags.split(",").map(normalizeTag).filter(Boolean));
+}
+
+/**
+ * Applies a tag operation to the current tags.
+ *
+ * @param current - Tags currently on the entity
+ * @param operation - add (union), remove (difference) or set (replace)
+ * @param tags - Tags to add, remove or set
+ */
+export function applyTagOperation(current: string[], operation: TagOperation, tags: string[]): TagChange {
+  const before = dedupeTags(current);
+  const requested = dedupeTags(tags.map(normalizeTag).filter(Boolean));
+  const requestedKeys = new Set(requested.map(normalizeTag));
+
+  let after: string[];
+  switch (operation) {
+    case "add":
+      after = dedupeTags([...before, ...requested]);
+      break;
+    case "remove":
+      after = before.filter((t) => !requestedKeys.has(normalizeTag(t)));
+      break;
+    case "set":
+      // Keep the existing spelling of tags that survive the replacement
+      after = requested.map((t) => before.find((b) => normalizeTag(b) === t) ?? t);
+      break;
+  }
+  return diffTags(before, after);
+}
+
+/**
+ * Removes and adds tags in one step, so the result can be written at once.
+ * A tag in both lists ends up present.
+ *
+ * @param current - Tags currently on the entity
+ */
+export function applyTagEdit(current: string[], edit: { add?: string[]; remove?: string[] }): TagChange {
+  const removal = applyTagOperation(current, "remove", edit.remove ?? []);
+  const addition = applyTagOperation(removal.after, "add", edit.add ?? []);
+  return diffTags(removal.before, addition.after);
+}
+
+function diffTags(before: string[], after: string[]): TagChange {
+  const beforeKeys = new Set(before.map(normalizeTag));
+  const afterKeys = new Set(after.map(normalizeTag));
+  const added = after.filter((t) => !beforeKeys.has(normalizeTag(t)));
+  const removed = before.filter((t) => !afterKeys.has(normalizeTag(t)));
+
+  return { before, after, added, removed, changed: added.length > 0 || removed.length > 0 };
+}
+
+/**
+ * Removes case-insensitive duplicates, keeping the first spelling seen.
+ */
+function dedupeTags(tags: string[]): string[] {
+  const seen = new Set<string>();
+  return tags.filter((tag) => {
+    const key = normalizeTag(tag);
+    if (!key || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
@@ -0,0 +1,36 @@
+import { tempDir } from "./helpers.js";
+import assert from "node:assert/strict";
+import { appendFileSync, mkdtempSync, readFileSync } from "fs";
+import { join } from "path";
+import { describe, it } from "node:test";
+import { AuditLog } from "../audit-log.js";
+
+const ENTRY = { store: "test", command: "update-order", entityId: "gid://shopify/Order/1", args: {}, before: null };
+
+describe("AuditLog", () => {
+  it("skips malformed lines and reports each set once", () => {
+    const path = join(mkdtempSync(join(tempDir, "audit-")), "audit-log.jsonl");
+    const reports: number[][] = [];
+    const log = new AuditLog(path, (lines) => reports.push(lines));
+
+    const first = log.append(ENTRY);
+    appendFileSync(path, "not json\n");
+    const second = log.append(ENTRY);
+
+    assert.deepEqual(log.read().map((e) => e.id), [second.id, first.id]);
+    assert.equal(log.get(first.id)?.id, first.id);
+    assert.deepEqual(reports, [[2]]);
+  });
+
+  it("starts a new line after an entry cut short mid-append", () => {
+    const path = join(mkdtempSync(join(tempDir, "audit-")), "audit-log.jsonl");
+    const log = new AuditLog(path, () => {});
+    log.append(ENTRY);
+    appendFileSync(path, '{"id":"cut-sh');
+
+    const entry = log.append(ENTRY);
+
+    assert.equal(readFileSync(path, "utf-8").split("\n").length, 4);
+    assert.equal(log.read()[0].id, entry.id);
+  });
+});
@@ -0,0 +1,78 @@
+import { isolatedOptions, tempDir } from "./helpers.js";
+import assert from "node:assert/strict";
+import { mkdtempSync, readFileSync, writeFileSync } from "fs";
+import { join } from "path";
+import { after, before, describe, it } from "node:test";
+import { runBulkUpdate, type BulkRowResult } from "../bulk.js";
+import { ShopifyMCPClient } from "../mcp-client.js";
+
+// Runs against the mock server, which keeps its state for the client's lifetime
+describe("runBulkUpdate", () => {
+  let client: ShopifyMCPClient;
+
+  before(() => {
+    client = new ShopifyMCPClient(isolatedOptions("bulk"));
+  });
+
+  after(async () => {
+    await client.disconnect();
+  });
+
+  const input = (name: string, rows: object[]): string => {
+    const path = join(mkdtempSync(join(tempDir, "bulk-")), name);
+    writeFileSync(path, rows.map((row) => JSON.stringify(row)).join("\n"));
+    return path;
+  };
+
+  const results = (out: string): BulkRowResult[] =>
+    readFileSync(out, "utf-8").trim().split("\n").map((line) => JSON.parse(line));
+
+  it("accepts the type in any case and fails rows with an unknown or contradicting type", async () => {
+    const file = input("types.jsonl", [
+      { id: "5002", type: "Order", note: "typed in capitals" },
+      { id: "5002", type: "orders", note: "typo" },
+      { id: "gid://shopify/Order/5002", type: "customer", note: "wrong entity" },
+    ]);
+    const summary = await runBulkUpdate(client, { input: file, concurrency: 1 });
+
+    assert.deepEqual([summary.succeeded, summary.failed], [1, 2]);
+    const [, typo, mismatch] = results(summary.out);
+    assert.match(typo.error!, /Unknown type "orders"/);
+    assert.match(mismatch.error!, /doesn't match/);
+  });
+
+  it("runs rows for the same entity one after another, so no tag change is lost", async () => {
+    const tags = ["bulk-a", "bulk-b", "bulk-c", "bulk-d"];
+    const file = input("same-entity.jsonl", [
+      ...tags.map((tag) => ({ id: "gid://shopify/Order/5003", addTags: tag })),
+      { id: "5003", type: "order", removeTags: "bulk-a" },
+    ]);
+    const summary = await runBulkUpdate(client, { input: file, concurrency: 4 });
+
+    assert.equal(summary.succeeded, 5);
+    const order = await client.findOrder("gid://shopify/Order/5003");
+    assert.deepEqual(order.orders[0].tags.filter((t) => t.startsWith("bulk-")).sort(), ["bulk-b", "bulk-c", "bulk-d"]);
+  });
+
+  it("resumes only from a checkpoint for the same file contents, and starts a fresh result file otherwise", async () => {
+    const file = input("resume.jsonl", [
+      { id: "5004", type: "order", note: "first" },
+      { id: "5004", type: "ordr", note: "fails" },
+    ]);
+    const first = await runBulkUpdate(client, { input: file });
+    assert.deepEqual([first.succeeded, first.failed], [1, 1]);
+
+    const resumed = await runBulkUpdate(client, { input: file });
+    assert.equal(resumed.resumed, 1);
+    assert.equal(results(resumed.out).length, 3);
+
+    writeFileSync(file, JSON.stringify({ id: "5004", type: "order", note: "edited" }));
+    await assert.rejects(runBulkUpdate(client, { input: file }), /different contents/);
+
+    const restarted = await runBulkUpdate(client, { input: file, restart: true });
+    assert.equal(results(restarted.out).length, 1);
+    // Fully successful, so no checkpoint is left and the next run starts afresh
+    await runBulkUpdate(client, { input: file });
+    assert.equal(results(restarted.out).length, 1);
+  });
+});
@@ -0,0 +1,154 @@
+import { isolatedOptions, tempDir } from "./helpers.js";
+import assert from "node:assert/strict";
+import { mkdtempSync } from "fs";
+import { join } from "path";
+import { after, before, describe, it, mock } from "node:test";
+import { CacheIndex, orderNumberRef } from "../cache-index.js";
+import { ShopifyMCPClient, type Order } from "../mcp-client.js";
+
+const ORDER = { id: "gid://shopify/Order/1", name: "#1001", customer: { id: "gid://shopify/Customer/7" } };
+
+describe("CacheIndex", () => {
+  it("indexes every GID and the order number in a response", () => {
+    const index = new CacheIndex(mkdtempSync(join(tempDir, "index-")));
+    index.record("order", ORDER, { ttl: 60_000 });
+
+    assert.deepEqual(index.match(["gid://shopify/Customer/7"]), ["order"]);
+    assert.deepEqual(index.match([orderNumberRef("1001")]), ["order"]);
+    assert.deepEqual(index.match(["gid://shopify/Order/2"]), []);
+  });
+
+  it("keeps entries recorded by other processes sharing the directory", () => {
+    const dir = mkdtempSync(join(tempDir, "index-"));
+    // Both loaded before either recorded, as with the daemon and a direct CLI call
+    const daemon = new CacheIndex(dir);
+    const cli = new CacheIndex(dir);
+
+    daemon.record("daemon-read", ORDER, { ttl: 60_000 });
+    cli.record("cli-read", { ...ORDER, id: "gid://shopify/Order/2", name: "#1002" }, { ttl: 60_000 });
+
+    assert.deepEqual(cli.match(["gid://shopify/Customer/7"]).sort(), ["cli-read", "daemon-read"]);
+    cli.forget(["daemon-read"]);
+    assert.deepEqual(daemon.match(["gid://shopify/Customer/7"]), ["cli-read"]);
+  });
+
+  it("matches list queries by type and filtering", () => {
+    const index = new CacheIndex(mkdtempSync(join(tempDir, "index-")));
+    index.record("all", [], { ttl: 60_000, list: { type: "order", filtered: false } });
+    index.record("open", [], { ttl: 60_000, list: { type: "order", filtered: true } });
+
+    assert.deepEqual(index.match([], { type: "order", filteredOnly: true }), ["open"]);
+    assert.deepEqual(index.match([], { type: "order", filteredOnly: false }).sort(), ["all", "open"]);
+    assert.deepEqual(index.match([], { type: "customer", filteredOnly: false }), []);
+  });
+
+  it("drops expired entries", () => {
+    const index = new CacheIndex(mkdtempSync(join(tempDir, "index-")));
+    index.record("expired", ORDER, { ttl: -1 });
+    assert.deepEqual(index.match(["gid://shopify/Order/1"]), []);
+  });
+});
+
+// Each mutation is followed by the reads whose cached copies it must invalidate
+describe("reads after mutations", () => {
+  let client: ShopifyMCPClient;
+
+  before(() => {
+    client = new ShopifyMCPClient(isolatedOptions("stale-reads"));
+  });
+
+  after(async () => {
+    client.clearCache();
+    await client.disconnect();
+  });
+
+  it("doesn't write the index on a cache hit", async () => {
+    const record = mock.method(CacheIndex.prototype, "record");
+    try {
+      await client.getOrderById("gid://shopify/Order/5001");
+      await client.getOrderById("gid://shopify/Order/5001");
+      assert.equal(record.mock.callCount(), 1);
+    } finally {
+      record.mock.restore();
+    }
+  });
+
+  it("update-order", async () => {
+    const id = "gid://shopify/Order/5001";
+    await client.getOrderById(id);
+    await client.getOrders({ query: "tag:stale-check", status: "any" });
+
+    await client.updateOrder(id, { tags: "stale-check" });
+
+    assert.deepEqual((await client.getOrderById(id)).tags, ["stale-check"]);
+    const { orders } = await client.getOrders({ query: "tag:stale-check", status: "any" });
+    assert.deepEqual(orders.map((o) => o.id), [id]);
+  });
+
+  it("update-customer, including orders embedding the customer", async () => {
+    const id = "gid://shopify/Customer/2002";
+    const orderId = (await client.getCustomerOrders("2002", 5)).orders[0].id;
+    await client.getCustomerById(id);
+    await client.getOrderById(orderId);
+
+    await client.updateCustomer(id, { note: "stale check" });
+
+    assert.equal((await client.getCustomerById(id))?.note, "stale check");
+    assert.equal((await client.getOrderById(orderId)).customer?.note, "stale check");
+  });
+
+  it("create-fulfillment, by order number", async () => {
+    const id = "gid://shopify/Order/5004";
+    assert.equal((await client.getOrderById(id)).fulfillments.length, 0);
+
+    await client.createFulfillment("1004", "1Z999AA10123456784", { trackingCompany: "UPS" });
+
+    assert.equal((await client.getOrderById(id)).fulfillments.length, 1);
+  });
+
+  it("update-fulfillment-tracking, by fulfillment ID", async () => {
+    const order = await client.getOrderById("gid://shopify/Order/5004");
+    const fulfillmentId = order.fulfillments[0].id;
+
+    await client.updateFulfillmentTracking(fulfillmentId, "1Z999AA10123456795", { trackingCompany: "UPS" });
+
+    const updated = await client.getOrderById(order.id);
+    assert.equal(updated.fulfillments[0].trackingInfo[0].number, "1Z999AA10123456795");
+  });
+
+  it("create-return and create-reverse-delivery", async () => {
+    const id = "gid://shopify/Order/5004";
+    assert.equal((await client.getOrderById(id)).returns.length, 0);
+
+    await client.createReturn("1004");
+    const returned: Order = await client.getOrderById(id);
+    assert.equal(returned.returns.length, 1);
+
+    await client.createReverseDelivery(returned.returns[0].id, "1Z999AA10123456806", { trackingCompany: "UPS" });
+    const ret = (await client.getOrderById(id)).returns[0] as Record<string, any>;
+    assert.equal(ret.reverseDeliveries.length, 1);
+  });
+
+  it("create-product and update-product", async () => {
+    const before = await client.getProducts({ limit: 50 });
+
+    const created = await client.createProduct({ title: "Stale Check Lantern" });
+    const { products } = await client.getProducts({ limit: 50 });
+    assert.equal(products.length, before.products.length + 1);
+
+    const id = (created as { id: string }).id;
+    await client.getProductById(id);
+    await client.updateProduct(id, { title: "Stale Check Lamp" });
+    assert.equal((await client.getProductById(id)).title, "Stale Check Lamp");
+  });
+
+  it("tag changes and their undo", async () => {
+    const id = "gid://shopify/Order/5005";
+    await client.modifyTags("order", id, "add", ["vip"]);
+    assert.ok((await client.getOrderById(id)).tags.includes("vip"));
+
+    const [entry] = client.getAuditLog({ entityId: id, limit: 1 });
+    await client.undo(entry.id);
+    assert.ok(!(await client.getOrderById(id)).tags.includes("vip"));
+  });
+});
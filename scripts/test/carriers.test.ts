@@ -0,0 +1,20 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { CarrierRegistry } from "../carriers.js";
+
+describe("CarrierRegistry", () => {
+  const registry = new CarrierRegistry();
+  const detect = (number: string) => registry.detect(number).map((c) => c.key);
+
+  it("tells Parcelforce international numbers from Royal Mail ones", () => {
+    assert.deepEqual(detect("CP123456789GB"), ["parcelforce"]);
+    assert.deepEqual(detect("EA123456789GB"), ["parcelforce"]);
+    assert.deepEqual(detect("RR123456789GB"), ["royal-mail"]);
+    assert.deepEqual(detect("AB1234567"), ["parcelforce"]);
+  });
+
+  it("infers the carrier of an international Parcelforce number", () => {
+    assert.equal(registry.resolve("cp 123 456 789 gb").trackingCompany, "Parcelforce");
+    assert.throws(() => registry.resolve("CP123456789GB", "Royal Mail"), /looks like Parcelforce/);
+  });
+});
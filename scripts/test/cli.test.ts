@@ -0,0 +1,380 @@
+import { FIXTURES_DIR, STORE, cli, runCli, tempDir } from "./helpers.js";
+import type { BulkUpdateSummary } from "../bulk.js";
+import type { CustomerInsights } from "../customer-insights.js";
+import type { DaemonStatus } from "../daemon.js";
+import type { DoctorReport } from "../doctor.js";
+import type { DuplicateReport } from "../duplicate-customers.js";
+import type { ExportSummary } from "../export.js";
+import type { ImportReport } from "../fulfillment-import.js";
+import type { AuditEntry, MutationResult, PageCheckpoint, TagChange } from "../mcp-client.js";
+import type { OrderTimeline } from "../order-timeline.js";
+import type { SalesReport } from "../sales-report.js";
+import type { Customer, CustomerPage, Order, OrderPage, Product, ProductPage } from "../schemas.js";
+import assert from "node:assert/strict";
+import { mkdtempSync, readFileSync, writeFileSync } from "fs";
+import { join } from "path";
+import { describe, it } from "node:test";
+
+// Every command, replaying the fixture directory named after it unless noted
+describe("cli.ts commands", () => {
+  const out = mkdtempSync(join(tempDir, "out-"));
+  const lines = (text: string) => text.trim().split("\n").map((line) => JSON.parse(line));
+  // get-all-* results, as built by collect()
+  type Collected<K extends string, T> = { [P in K]: T[] } & { totalFetched: number; hasMore: boolean; checkpoint: PageCheckpoint };
+
+  describe("setup and discovery", () => {
+    it("list-tools", () => {
+      // Only needs the tool list, which the fixture directories share
+      const tools = cli(["list-tools"], { fixture: "." }) as Array<{ name: string }>;
+      assert.ok(tools.some((t) => t.name === "get-orders"));
+    });
+
+    it("list-stores", () => {
+      const [store] = cli(["list-stores"]) as Array<{ name: string; active: boolean }>;
+      assert.equal(store.name, STORE);
+      assert.equal(store.active, true);
+    });
+
+    it("list-commands", () => {
+      const commands = cli(["list-commands"], { fixture: "." }) as Array<{ command: string; available: boolean }>;
+      const getOrders = commands.find((c) => c.command === "get-orders");
+      assert.equal(getOrders?.available, true);
+    });
+
+    it("doctor, against the mock server", () => {
+      const report = cli(["doctor"]) as DoctorReport;
+      assert.equal(report.ok, true, report.summary.join("\n"));
+    });
+
+    it("daemon status", () => {
+      assert.equal((cli(["daemon", "status"]) as DaemonStatus).running, false);
+    });
+
+    it("daemon options take either form and are validated like any command's", () => {
+      assert.equal((cli(["daemon", "status", "--idleTimeout=60"]) as DaemonStatus).running, false);
+      const { stderr, status } = runCli(["daemon", "start", "--idleTimeout", "soon"]);
+      assert.equal(status, 1);
+      assert.match(stderr, /^Error: --idleTimeout: /);
+    });
+
+    it("reports a global flag missing its value instead of crashing", () => {
+      // runCli appends its own --store, which this one swallows as a flag
+      const { stderr, status } = runCli(["get-orders", "--store"]);
+      assert.equal(status, 1);
+      assert.equal(stderr.trim(), "Error: --store requires a store name");
+    });
+
+    it("detect-carrier", () => {
+      const { candidates } = cli(["detect-carrier", "--trackingNumber", "1Z999AA10123456784"]) as { candidates: Array<{ key: string }> };
+      assert.deepEqual(candidates.map((c) => c.key), ["ups"]);
+    });
+  });
+
+  describe("products", () => {
+    it("get-products", () => {
+      const { products } = cli(["get-products", "--limit", "2"], { fixture: "get-products" }) as ProductPage;
+      assert.equal(products.length, 2);
+    });
+
+    it("get-all-products", () => {
+      const { products, hasMore } = cli(["get-all-products"], { fixture: "get-all-products" }) as Collected<"products", Product>;
+      assert.equal(products.length, 4);
+      assert.equal(hasMore, false);
+    });
+
+    it("get-product", () => {
+      const product = cli(["get-product", "--id", "gid://shopify/Product/3001"], { fixture: "get-product" }) as Product;
+      assert.equal(product.title, "Trail Backpack 30L");
+    });
+
+    it("create-product", () => {
+      const product = cli(
+        ["create-product", "--title", "Trail Lantern", "--vendor", "Outdoor", "--tags", "camp, light"],
+        { fixture: "create-product" }
+      ) as Product;
+      assert.deepEqual(product.tags, ["camp", "light"]);
+    });
+  });
+
+  describe("customers", () => {
+    it("get-customers", () => {
+      const { customers } = cli(["get-customers", "--search", "alex"], { fixture: "get-customers" }) as CustomerPage;
+      assert.ok(customers.length > 0);
+      assert.ok(customers.every((c) => c.firstName?.startsWith("redacted-")));
+    });
+
+    it("get-all-customers", () => {
+      const { customers, hasMore } = cli(["get-all-customers", "--max", "4"], { fixture: "get-all-customers" }) as Collected<"customers", Customer>;
+      assert.equal(customers.length, 4);
+      assert.equal(hasMore, true);
+    });
+
+    it("update-customer", () => {
+      const customer = cli(
+        ["update-customer", "--id", "gid://shopify/Customer/2001", "--note", "Prefers email"],
+        { fixture: "update-customer" }
+      ) as Customer;
+      assert.equal(customer.note, "Prefers email");
+    });
+
+    it("get-customer-orders", () => {
+      const { orders } = cli(["get-customer-orders", "--id", "gid://shopify/Customer/2001"], { fixture: "get-customer-orders" }) as OrderPage;
+      assert.deepEqual(orders.map((o) => o.name), ["#1003", "#1001"]);
+    });
+
+    it("find-duplicate-customers", () => {
+      const { customersScanned, groups } = cli(["find-duplicate-customers"], { fixture: "find-duplicate-customers" }) as DuplicateReport;
+      assert.equal(customersScanned, 6);
+      // Redaction hashes emails whole, so only the case-insensitive email match survives in fixtures
+      const ids = groups.map((g) => g.customers.map((c) => c.id).sort());
+      assert.deepEqual(ids, [["gid://shopify/Customer/2002", "gid://shopify/Customer/2005"]]);
+      // Order counts are looked up by numeric ID, as get-customer-orders expects
+      assert.ok(groups[0].customers.some((c) => c.orders > 0));
+    });
+  });
+
+  describe("orders", () => {
+    it("get-orders", () => {
+      const { orders } = cli(["get-orders", "--limit", "3", "--status", "any"], { fixture: "get-orders" }) as OrderPage;
+      assert.equal(orders.length, 3);
+    });
+
+    it("get-all-orders, following the cursor to a second page", () => {
+      const { orders, totalFetched, hasMore } = cli(["get-all-orders"], { fixture: "get-all-orders" }) as Collected<"orders", Order>;
+      assert.equal(totalFetched, 6);
+      assert.equal(hasMore, false);
+      assert.deepEqual(orders.map((o) => o.name), ["#1006", "#1005", "#1004", "#1003", "#1002", "#1001"]);
+    });
+
+    it("get-all-orders, stopping mid-page and resuming from the checkpoint", () => {
+      const first = cli(["get-all-orders", "--max", "5"], { fixture: "get-all-orders" }) as Collected<"orders", Order>;
+      assert.equal(first.totalFetched, 5);
+      assert.equal(first.hasMore, true);
+      assert.deepEqual(first.checkpoint, { after: "cursor-page-2", offset: 1, done: false });
+
+      const rest = cli(
+        ["get-all-orders", "--after", String(first.checkpoint.after), "--offset", String(first.checkpoint.offset)],
+        { fixture: "get-all-orders" }
+      ) as Collected<"orders", Order>;
+      assert.deepEqual(rest.orders.map((o) => o.name), ["#1001"]);
+      assert.equal(rest.hasMore, false);
+    });
+
+    it("find-order", () => {
+      const { matchedBy, orders } = cli(["find-order", "--ref", "#1003"], { fixture: "find-order" }) as { matchedBy: string; orders: Order[] };
+      assert.equal(matchedBy, "name");
+      assert.deepEqual(orders.map((o) => o.id), ["gid://shopify/Order/5003"]);
+    });
+
+    it("get-order", () => {
+      const order = cli(["get-order", "--id", "gid://shopify/Order/5001"], { fixture: "get-order" }) as Order;
+      assert.equal(order.name, "#1001");
+    });
+
+    it("order-timeline", () => {
+      const { order, events } = cli(["order-timeline", "--number", "1001"], { fixture: "order-timeline" }) as OrderTimeline;
+      assert.equal(order.id, "gid://shopify/Order/5001");
+      assert.equal(events[0].type, "created");
+      assert.ok(events.some((e) => e.type === "fulfillment"));
+    });
+
+    it("order-timeline, with mutations journaled under a prefixed order number", () => {
+      const dataDir = mkdtempSync(join(tempDir, "journal-"));
+      cli(["create-fulfillment", "--orderNumber", "ORD1004", "--trackingNumber", "1Z999AA10123456784"], { dataDir });
+
+      const { events } = cli(["order-timeline", "--number", "1004"], { dataDir }) as OrderTimeline;
+      assert.ok(events.some((e) => e.source === "audit"));
+    });
+
+    it("update-order", () => {
+      const order = cli(
+        ["update-order", "--id", "gid://shopify/Order/5003", "--tags", "priority, gift", "--note", "Leave at door"],
+        { fixture: "update-order" }
+      ) as Order;
+      assert.deepEqual(order.tags, ["priority", "gift"]);
+      assert.equal(order.note, "Leave at door");
+    });
+
+    it("sales-report", () => {
+      const report = cli(
+        ["sales-report", "--from", "2025-05-01", "--to", "2025-06-30", "--groupBy", "month"],
+        { fixture: "sales-report" }
+      ) as SalesReport;
+      assert.deepEqual(report.currencies, ["GBP"]);
+      assert.deepEqual(report.groups.map((g) => g.group), ["2025-05", "2025-06"]);
+    });
+
+    it("customer-insights", () => {
+      const insights = cli(["customer-insights", "--from", "2025-01-01", "--to", "2025-07-31"], { fixture: "customer-insights" }) as CustomerInsights;
+      assert.equal(insights.customersAnalyzed, 3);
+      assert.equal(insights.customers.length, 3);
+      // Recency is measured from the window's end, the start of the next UTC day
+      assert.equal(insights.asOf, "2025-08-01T00:00:00.000Z");
+    });
+
+    it("customer-insights --applyTags, one write per customer against the mock server", () => {
+      const dataDir = mkdtempSync(join(tempDir, "journal-"));
+      const insights = cli(["customer-insights", "--from", "2025-01-01", "--to", "2025-07-31", "--applyTags", "true"], { dataDir }) as CustomerInsights & { tagging: { changed: number } };
+      assert.equal(insights.tagging.changed, insights.customers.length);
+
+      const journal = cli(["audit-log"], { dataDir }) as AuditEntry[];
+      assert.equal(journal.length, insights.customers.length);
+      for (const customer of insights.customers) {
+        assert.deepEqual(customer.tagging, { added: [`rfm:${customer.segment}`], removed: [] });
+      }
+    });
+  });
+
+  describe("fulfillments and returns", () => {
+    it("create-fulfillment", () => {
+      const { fulfillment } = cli(
+        ["create-fulfillment", "--orderNumber", "1002", "--trackingNumber", "1Z999AA10123456784"],
+        { fixture: "create-fulfillment" }
+      ) as MutationResult;
+      // The carrier is detected from the number
+      assert.equal(fulfillment.trackingInfo[0].url, "https://www.ups.com/track?tracknum=1Z999AA10123456784");
+    });
+
+    it("update-fulfillment-tracking", () => {
+      const { fulfillment } = cli(
+        ["update-fulfillment-tracking", "--fulfillmentId", "gid://shopify/Fulfillment/5001", "--trackingNumber", "1Z999AA10123456795"],
+        { fixture: "update-fulfillment-tracking" }
+      ) as MutationResult;
+      assert.equal(fulfillment.trackingInfo[0].number, "1Z999AA10123456795");
+    });
+
+    it("create-return", () => {
+      const result = cli(
+        ["create-return", "--orderNumber", "1001", "--returnReason", "SIZE_TOO_SMALL"],
+        { fixture: "create-return" }
+      ) as MutationResult;
+      assert.equal(result.return.returnReason, "SIZE_TOO_SMALL");
+    });
+
+    it("create-reverse-delivery", () => {
+      const { reverseDelivery } = cli(
+        ["create-reverse-delivery", "--returnId", "gid://shopify/Return/1001", "--trackingNumber", "1Z999AA10123456806",
+          "--labelUrl", "https://example.com/label.pdf"],
+        { fixture: "create-reverse-delivery" }
+      ) as MutationResult;
+      assert.equal(reverseDelivery.tracking.number, "1Z999AA10123456806");
+    });
+
+    it("import-fulfillments", () => {
+      const report = cli(
+        ["import-fulfillments", "--file", join(FIXTURES_DIR, "import-fulfillments", "input.csv"), "--carrier", "ups"],
+        { fixture: "import-fulfillments" }
+      ) as ImportReport;
+      assert.deepEqual(report.totals, { rows: 2, fulfilled: 1, partial: 0, skipped: 1, failed: 0 });
+      // The manifest has a blank line between its rows
+      assert.deepEqual(report.fulfilled[0].rows, [2]);
+      assert.deepEqual(report.skipped[0].rows, [4]);
+    });
+  });
+
+  describe("tags", () => {
+    it("tag-add", () => {
+      const change = cli(["tag-add", "--type", "order", "--id", "gid://shopify/Order/5004", "--tags", "vip, rush"], { fixture: "tag-add" }) as TagChange;
+      assert.deepEqual(change.added, ["vip", "rush"]);
+    });
+
+    it("tag-remove", () => {
+      const change = cli(["tag-remove", "--type", "customer", "--id", "gid://shopify/Customer/2001", "--tags", "vip"], { fixture: "tag-remove" }) as TagChange;
+      assert.deepEqual(change.removed, ["vip"]);
+    });
+
+    it("tag-set", () => {
+      const change = cli(["tag-set", "--type", "product", "--id", "gid://shopify/Product/3002", "--tags", "wool, winter"], { fixture: "tag-set" }) as TagChange;
+      assert.deepEqual(change.after, ["wool", "winter"]);
+    });
+  });
+
+  describe("exports", () => {
+    it("export-orders", () => {
+      const file = join(out, "orders.csv");
+      const result = cli(["export-orders", "--out", file, "--status", "any"], { fixture: "export-orders" }) as ExportSummary;
+      assert.equal(result.rows, 6);
+      assert.equal(readFileSync(file, "utf-8").trim().split("\n").length, 7);
+    });
+
+    it("export-customers", () => {
+      const file = join(out, "customers.ndjson");
+      const result = cli(["export-customers", "--out", file], { fixture: "export-customers" }) as ExportSummary;
+      assert.equal(result.rows, 6);
+      assert.equal(lines(readFileSync(file, "utf-8")).length, 6);
+    });
+
+    it("export-products", () => {
+      const result = cli(["export-products", "--out", join(out, "products.csv")], { fixture: "export-products" }) as ExportSummary;
+      assert.equal(result.rows, 4);
+    });
+  });
+
+  describe("many commands at once", () => {
+    it("batch", () => {
+      const { stdout, status } = runCli(
+        ["batch", "--file", join(FIXTURES_DIR, "batch", "input.ndjson")],
+        { fixture: "batch" }
+      );
+      assert.equal(status, 0);
+      assert.deepEqual(lines(stdout).map((r) => [r.id, r.ok]), [["a", true], ["b", true]]);
+    });
+
+    it("bulk-update", () => {
+      const summary = cli(
+        ["bulk-update", "--file", join(FIXTURES_DIR, "bulk-update", "input.csv"), "--out", join(out, "bulk.jsonl")],
+        { fixture: "bulk-update" }
+      ) as BulkUpdateSummary;
+      assert.equal(summary.succeeded, 2);
+      assert.equal(summary.failed, 0);
+    });
+
+    it("reads after a mutation see the change", () => {
+      const { stdout, status } = runCli(
+        ["batch", "--file", join(FIXTURES_DIR, "read-after-mutation", "input.ndjson")],
+        { fixture: "read-after-mutation" }
+      );
+      assert.equal(status, 0);
+      const [before, , after] = lines(stdout);
+      assert.deepEqual(before.result.tags, []);
+      assert.deepEqual(after.result.tags, ["gift-wrap"]);
+    });
+
+    it("reads after a mutation see the change through the cache, against the mock server", () => {
+      // Replay disables the cache, so this runs live to exercise invalidation
+      const { stdout, status } = runCli(["batch", "--file", join(FIXTURES_DIR, "read-after-mutation", "input.ndjson")]);
+      assert.equal(status, 0);
+      const [before, , after] = lines(stdout);
+      assert.deepEqual(before.result.tags, []);
+      assert.deepEqual(after.result.tags, ["gift-wrap"]);
+    });
+  });
+
+  describe("journal", () => {
+    it("audit-log and undo", () => {
+      const dataDir = mkdtempSync(join(tempDir, "journal-"));
+      const id = "gid://shopify/Order/5006";
+      // Each process replays a fixture from its first response, so the undo has its own
+      cli(["update-order", "--id", id, "--tags", "backorder"], { fixture: "undo-setup", dataDir });
+
+      const [entry] = cli(["audit-log", "--id", id], { dataDir }) as AuditEntry[];
+      assert.equal(entry.command, "update-order");
+      assert.deepEqual(entry.args, { tags: "backorder" });
+
+      const undone = cli(["undo", "--entry", entry.id], { fixture: "undo", dataDir }) as { reverted: Record<string, unknown> };
+      assert.deepEqual(undone.reverted, { tags: [] });
+      assert.equal((cli(["audit-log", "--id", id], { dataDir }) as AuditEntry[])[0].undoOf, entry.id);
+    });
+
+    it("audit-log skips a line truncated by a crash, with a warning", () => {
+      const dataDir = mkdtempSync(join(tempDir, "journal-"));
+      const entry = { id: "e1", timestamp: "2025-06-01T00:00:00Z", store: STORE, command: "update-order", entityId: "1", args: {}, before: null };
+      writeFileSync(join(dataDir, "audit-log.jsonl"), JSON.stringify(entry) + "\n" + '{"id":"e2","timest');
+
+      const { stdout, stderr, status } = runCli(["audit-log"], { dataDir });
+      assert.equal(status, 0, stderr);
+      assert.deepEqual(JSON.parse(stdout).map((e: { id: string }) => e.id), ["e1"]);
+      assert.match(stderr, /skipped 1 malformed audit journal line\(s\) .*: 2/);
+    });
+  });
+});
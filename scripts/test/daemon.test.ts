@@ -0,0 +1,43 @@
+import { cli, tempDir } from "./helpers.js";
+import type { DaemonStatus } from "../daemon.js";
+import assert from "node:assert/strict";
+import { mkdtempSync } from "fs";
+import { connect } from "net";
+import { join } from "path";
+import { createInterface } from "readline";
+import { after, before, describe, it } from "node:test";
+
+describe("daemon", () => {
+  const dataDir = mkdtempSync(join(tempDir, "daemon-"));
+  let socketPath: string;
+
+  before(() => {
+    socketPath = (cli(["daemon", "start"], { dataDir }) as DaemonStatus).socket;
+  });
+
+  after(() => {
+    cli(["daemon", "stop"], { dataDir });
+  });
+
+  it("answers malformed lines with an error and keeps serving", async () => {
+    const socket = connect(socketPath);
+    const replies = createInterface({ input: socket })[Symbol.asyncIterator]();
+    const next = async () => JSON.parse((await replies.next()).value);
+    try {
+      socket.write("not json\n");
+      const invalid = await next();
+      assert.equal(invalid.id, null);
+      assert.match(invalid.error.message, /Invalid daemon request/);
+
+      socket.write(JSON.stringify({ id: 1 }) + "\n");
+      assert.equal((await next()).id, null);
+
+      socket.write(JSON.stringify({ id: 2, method: "daemon.status", args: [] }) + "\n");
+      const status = await next();
+      assert.equal(status.id, 2);
+      assert.equal(status.result.running, true);
+    } finally {
+      socket.end();
+    }
+  });
+});
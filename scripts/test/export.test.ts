@@ -0,0 +1,48 @@
+import { tempDir } from "./helpers.js";
+import assert from "node:assert/strict";
+import { mkdtempSync, statSync } from "fs";
+import { join } from "path";
+import { describe, it } from "node:test";
+import { buildOrderQuery, exportRows, utcDayAfter } from "../export.js";
+
+async function* rows(): AsyncGenerator<Record<string, unknown>> {
+  yield { name: "#1001", tags: ["gift", "vip"] };
+  yield { name: "#1002", tags: [] };
+}
+
+describe("buildOrderQuery", () => {
+  it("bounds the range with UTC timestamps, ending before the day after --to", () => {
+    assert.equal(
+      buildOrderQuery({ query: "tag:wholesale", from: "2025-06-01", to: "2025-06-30" }),
+      'tag:wholesale created_at:>="2025-06-01T00:00:00Z" created_at:<"2025-07-01T00:00:00Z"'
+    );
+  });
+
+  it("leaves out missing bounds", () => {
+    assert.equal(buildOrderQuery({ to: "2024-12-31" }), 'created_at:<"2025-01-01T00:00:00Z"');
+    assert.equal(buildOrderQuery({}), undefined);
+  });
+
+  it("rolls over months and leap days", () => {
+    assert.equal(utcDayAfter("2024-02-28"), "2024-02-29");
+    assert.equal(utcDayAfter("2024-02-29"), "2024-03-01");
+  });
+});
+
+describe("exportRows", () => {
+  const dir = mkdtempSync(join(tempDir, "export-"));
+
+  for (const format of ["csv", "ndjson", "xlsx"] as const) {
+    it(`writes ${format}`, async () => {
+      const out = join(dir, `orders.${format}`);
+      const summary = await exportRows(rows(), { out, columns: ["name", "tags"] });
+      assert.equal(summary.rows, 2);
+      assert.ok(statSync(out).size > 0);
+    });
+
+    it(`rejects, rather than crashing, when the ${format} file can't be opened`, async () => {
+      const out = join(dir, "missing", `orders.${format}`);
+      await assert.rejects(exportRows(rows(), { out, columns: ["name"] }), { code: "ENOENT" });
+    });
+  }
+});
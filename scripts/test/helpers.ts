@@ -0,0 +1,80 @@
+/**
+ * Test Helpers
+ *
+ * Points the client at a throwaway config.json whose store runs the mock
+ * server, and runs cli.ts as a subprocess against recorded fixtures. Import
+ * this module before anything that loads config.ts, since CONFIG_PATH is
+ * read on import.
+ */
+
+import { spawnSync } from "child_process";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { dirname, join } from "path";
+import { fileURLToPath } from "url";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+export const SCRIPTS_DIR = join(__dirname, "..");
+// Recorded with --record against mock-server.ts; one directory per case, sharing tools.json
+export const FIXTURES_DIR = join(__dirname, "fixtures");
+
+const TSX = join(SCRIPTS_DIR, "node_modules", ".bin", "tsx");
+
+// Unique per run, so cache namespaces never carry over between runs
+export const STORE = `test-${process.pid}`;
+
+export const tempDir = mkdtempSync(join(tmpdir(), "shopify-cli-test-"));
+process.on("exit", () => rmSync(tempDir, { recursive: true, force: true }));
+
+const configPath = join(tempDir, "config.json");
+writeFileSync(configPath, JSON.stringify({
+  stores: {
+    [STORE]: {
+      storeDomain: "test.myshopify.com",
+      // No --state: each server process starts from the seed
+      mcpServer: { command: TSX, args: [join(SCRIPTS_DIR, "mock-server.ts")] },
+    },
+  },
+}));
+process.env.SHOPIFY_CONFIG = configPath;
+
+/**
+ * Client options isolating the journal and cache index in a fresh directory.
+ */
+export function isolatedOptions(name: string): { store: string; auditLogPath: string; cacheIndexDir: string } {
+  const dir = mkdtempSync(join(tempDir, `${name}-`));
+  return { store: STORE, auditLogPath: join(dir, "audit-log.jsonl"), cacheIndexDir: join(dir, "cache-index") };
+}
+
+/**
+ * Runs cli.ts, serving tool calls from `options.fixture` (a directory in
+ * FIXTURES_DIR) when given, else from the mock server.
+ *
+ * @param options.dataDir - Journal, cache index and daemon directory (default: a fresh one)
+ */
+export function runCli(
+  args: string[],
+  options: { fixture?: string; dataDir?: string } = {}
+): { stdout: string; stderr: string; status: number | null } {
+  const replay = options.fixture ? ["--replay", join(FIXTURES_DIR, options.fixture)] : [];
+  const { stdout, stderr, status } = spawnSync(TSX, ["cli.ts", ...args, "--store", STORE, ...replay], {
+    cwd: SCRIPTS_DIR,
+    encoding: "utf-8",
+    timeout: 60_000,
+    env: { ...process.env, SHOPIFY_DATA_DIR: options.dataDir ?? mkdtempSync(join(tempDir, "data-")) },
+  });
+  return { stdout, stderr, status };
+}
+
+/**
+ * Runs cli.ts and parses its JSON output.
+ *
+ * @throws {Error} If the command exits non-zero
+ */
+export function cli(args: string[], options: { fixture?: string; dataDir?: string } = {}): unknown {
+  const { stdout, stderr, status } = runCli(args, options);
+  if (status !== 0) throw new Error(`cli.ts ${args.join(" ")} exited ${status}: ${stderr}`);
+  return JSON.parse(stdout);
+}
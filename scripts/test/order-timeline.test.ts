@@ -0,0 +1,37 @@
+import { isolatedOptions } from "./helpers.js";
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { ShopifyMCPClient } from "../mcp-client.js";
+import { buildOrderTimeline } from "../order-timeline.js";
+import type { Order } from "../schemas.js";
+
+describe("buildOrderTimeline", () => {
+  // Reads only the (empty) journal, so the client never connects
+  const client = new ShopifyMCPClient(isolatedOptions("timeline"));
+
+  it("lists events whose time doesn't parse last, keeping the rest in order", () => {
+    const order = {
+      id: "gid://shopify/Order/5001",
+      name: "#1001",
+      createdAt: "2025-06-01T10:00:00Z",
+      tags: [],
+      lineItems: [],
+      fulfillments: [{ id: "gid://shopify/Fulfillment/1", createdAt: "2025-06-03T10:00:00Z", trackingInfo: [] }],
+      returns: [],
+      refunds: [
+        { id: "gid://shopify/Refund/1", createdAt: "sometime", note: "first" },
+        { id: "gid://shopify/Refund/2", createdAt: "2025-06-02T10:00:00Z" },
+        { id: "gid://shopify/Refund/3", createdAt: "later", note: "second" },
+      ],
+    } as Order;
+
+    const { events } = buildOrderTimeline(client, order);
+    assert.deepEqual(events.map((e) => e.ref ?? e.type), [
+      "created",
+      "gid://shopify/Refund/2",
+      "gid://shopify/Fulfillment/1",
+      "gid://shopify/Refund/1",
+      "gid://shopify/Refund/3",
+    ]);
+  });
+});
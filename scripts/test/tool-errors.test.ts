@@ -0,0 +1,51 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { classifyToolError, type ToolErrorCode } from "../tool-errors.js";
+
+describe("classifyToolError", () => {
+  const code = (message: string) => classifyToolError("tool", message).code;
+
+  it("classifies server-side failures as retryable", () => {
+    assert.equal(code("503 Service Unavailable"), "TRANSIENT");
+    assert.equal(code("read ECONNRESET"), "TRANSIENT");
+    assert.equal(code("Throttled"), "THROTTLED");
+    assert.ok(classifyToolError("tool", "socket hang up").retryable);
+  });
+
+  it("doesn't retry input errors that mention network terms", () => {
+    assert.equal(code("Invalid tracking number: network carrier unknown"), "VALIDATION");
+    assert.equal(code("Fulfillment service unavailable for this location: not found"), "NOT_FOUND");
+    assert.ok(!classifyToolError("tool", "Invalid tracking number: network carrier unknown").retryable);
+  });
+
+  // One message per category, in precedence order
+  const samples: Array<[ToolErrorCode, string]> = [
+    ["THROTTLED", "Throttled"],
+    ["AUTH", "403 Forbidden"],
+    ["NOT_FOUND", "Order does not exist"],
+    ["VALIDATION", "Email is invalid"],
+    ["TRANSIENT", "502 Bad Gateway"],
+  ];
+
+  it("classifies a message for each code", () => {
+    for (const [expected, message] of samples) assert.equal(code(message), expected, message);
+    assert.equal(code("Something odd happened"), "UNKNOWN");
+    assert.equal(classifyToolError("tool", new McpError(ErrorCode.RequestTimeout, "Request timed out")).code, "TIMEOUT");
+    assert.equal(classifyToolError("tool", new McpError(ErrorCode.ConnectionClosed, "Connection closed")).code, "TRANSIENT");
+    assert.equal(classifyToolError("tool", new McpError(ErrorCode.InvalidParams, "Bad params")).code, "VALIDATION");
+  });
+
+  it("picks THROTTLED > AUTH > NOT_FOUND > VALIDATION > TRANSIENT when a message matches several", () => {
+    samples.forEach(([higher, first], i) => {
+      for (const [, second] of samples.slice(i + 1)) {
+        assert.equal(code(`${first}; ${second}`), higher, `${first}; ${second}`);
+        assert.equal(code(`${second}; ${first}`), higher, `${second}; ${first}`);
+      }
+    });
+  });
+
+  it("reads the throttle delay from Retry-After", () => {
+    assert.equal(classifyToolError("tool", "429 Too Many Requests, Retry-After: 2").retryAfterMs, 2000);
+  });
+});
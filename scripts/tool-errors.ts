@@ -0,0 +1,124 @@
+/**
+ * Tool Errors and Retry Policy
+ *
+ * Classifies MCP tool failures into stable error codes and decides which
+ * are worth retrying, with exponential backoff, jitter and Shopify's
+ * throttle status (query cost and restore rate) when the server reports it.
+ */
+
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+
+export type ToolErrorCode =
+  | "THROTTLED"
+  | "TRANSIENT"
+  | "TIMEOUT"
+  | "AUTH"
+  | "VALIDATION"
+  | "NOT_FOUND"
+  | "CONNECTION"
+  | "UNSUPPORTED"
+  | "UNKNOWN";
+
+/**
+ * A failed tool call. The message starts with the code (e.g. "THROTTLED: ...")
+ * so it survives JSON error output.
+ */
+export class ShopifyToolError extends Error {
+  /** Attempts made before giving up */
+  attempts = 1;
+
+  constructor(
+    public readonly code: ToolErrorCode,
+    public readonly tool: string,
+    public readonly detail: string,
+    /** Wait suggested by the server before retrying, in ms */
+    public readonly retryAfterMs?: number
+  ) {
+    super(`${code}: ${tool} failed: ${detail}`);
+    this.name = "ShopifyToolError";
+  }
+
+  /** Throttled, transient and timed-out calls may succeed if repeated */
+  get retryable(): boolean {
+    return this.code === "THROTTLED" || this.code === "TRANSIENT" || this.code === "TIMEOUT";
+  }
+}
+
+export interface RetryPolicy {
+  /** Retries after the first attempt (default: 3) */
+  retries: number;
+  /** First backoff delay in ms, doubled per retry (default: 500) */
+  baseDelayMs: number;
+  /** Upper bound for a single delay in ms (default: 30000) */
+  maxDelayMs: number;
+  /** Per-call timeout in ms (default: 60000) */
+  timeoutMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  retries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 30_000,
+  timeoutMs: 60_000,
+};
+
+// Checked in order; the first match wins. Not-found and validation come
+// before transient, whose words ("network", "unavailable") also turn up in
+// messages about the input, which must not be retried.
+const CLASSIFIERS: Array<[ToolErrorCode, RegExp]> = [
+  ["THROTTLED", /throttl|rate.?limit|too many requests|\b429\b/i],
+  ["AUTH", /unauthori[sz]ed|forbidden|access denied|access token|api key|\b40[13]\b/i],
+  ["NOT_FOUND", /not found|does not exist|no such|\b404\b/i],
+  ["VALIDATION", /invalid|required|must be|cannot be|can't be|usererrors|validation|\b422\b/i],
+  ["TRANSIENT", /timed? ?out|econnreset|econnrefused|etimedout|epipe|socket hang up|temporarily|unavailable|internal (server )?error|bad gateway|network|\b50[0234]\b/i],
+];
+
+/**
+ * Turns a tool error message or thrown exception into a ShopifyToolError.
+ *
+ * @param tool - Tool name
+ * @param error - isError text from the tool, or an exception from the MCP client
+ */
+export function classifyToolError(tool: string, error: unknown): ShopifyToolError {
+  if (error instanceof ShopifyToolError) return error;
+
+  if (error instanceof McpError) {
+    if (error.code === ErrorCode.RequestTimeout) return new ShopifyToolError("TIMEOUT", tool, error.message);
+    if (error.code === ErrorCode.ConnectionClosed) return new ShopifyToolError("TRANSIENT", tool, error.message);
+    if (error.code === ErrorCode.InvalidParams) return new ShopifyToolError("VALIDATION", tool, error.message);
+  }
+
+  const detail = error instanceof Error ? error.message : String(error);
+  const code = CLASSIFIERS.find(([, pattern]) => pattern.test(detail))?.[0] ?? "UNKNOWN";
+  return new ShopifyToolError(code, tool, detail, code === "THROTTLED" ? throttleDelay(detail) : undefined);
+}
+
+/**
+ * Delay before the given retry (1-based): the server's suggested wait if
+ * any, otherwise exponential backoff, with up to 25% jitter either way.
+ */
+export function retryDelay(retry: number, policy: RetryPolicy, retryAfterMs?: number): number {
+  const base = retryAfterMs ?? policy.baseDelayMs * 2 ** (retry - 1);
+  const jitter = base * 0.25 * Math.random();
+  return Math.min(policy.maxDelayMs, Math.round(base + jitter));
+}
+
+/**
+ * Reads how long to wait from a throttle error: a Retry-After value, or the
+ * GraphQL cost extension (time for the bucket to refill to the query's cost).
+ */
+function throttleDelay(detail: string): number | undefined {
+  const retryAfter = detail.match(/retry[- ]after\D{0,3}(\d+(?:\.\d+)?)/i);
+  if (retryAfter) return Number(retryAfter[1]) * 1000;
+
+  const requested = numberField(detail, "requestedQueryCost");
+  const available = numberField(detail, "currentlyAvailable");
+  const restoreRate = numberField(detail, "restoreRate");
+  if (requested === undefined || available === undefined || !restoreRate) return undefined;
+  return Math.max(0, Math.ceil(((requested - available) / restoreRate) * 1000));
+}
+
+function numberField(text: string, field: string): number | undefined {
+  const match = text.match(new RegExp(`"?${field}"?\\s*[:=]\\s*(\\d+(?:\\.\\d+)?)`));
+  return match ? Number(match[1]) : undefined;
+}
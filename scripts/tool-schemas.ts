@@ -0,0 +1,110 @@
+/**
+ * Tool Argument Checks
+ *
+ * Compares outgoing tool arguments with the inputSchema the MCP server
+ * advertises, so typos and renamed parameters fail with a clear message
+ * instead of a confusing server error. Covers the JSON Schema subset
+ * servers use for tool inputs: required fields, known properties and
+ * primitive types.
+ */
+
+import type { Tool } from "@modelcontextprotocol/sdk/types.js";
+
+export type ToolInputSchema = Tool["inputSchema"];
+
+export interface ArgumentIssue {
+  field: string;
+  /** missing and type issues block the call; unknown only does when the schema disallows extras */
+  kind: "missing" | "unknown" | "type";
+  message: string;
+}
+
+// Parameter names that differ between server versions
+const SYNONYMS: string[][] = [["limit", "first"]];
+
+/**
+ * Lists problems with arguments for a tool.
+ *
+ * @param schema - The tool's inputSchema from listTools()
+ * @param args - Arguments about to be sent (undefined values are ignored)
+ */
+export function checkArguments(schema: ToolInputSchema, args: Record<string, unknown>): ArgumentIssue[] {
+  const properties = (schema.properties ?? {}) as Record<string, Record<string, unknown>>;
+  const issues: ArgumentIssue[] = [];
+
+  for (const field of schema.required ?? []) {
+    if (args[field] === undefined) {
+      issues.push({ field, kind: "missing", message: `missing required argument "${field}"` });
+    }
+  }
+
+  for (const [field, value] of Object.entries(args)) {
+    if (value === undefined) continue;
+
+    const property = properties[field];
+    if (!property) {
+      const suggestion = suggestField(field, Object.keys(properties));
+      issues.push({
+        field,
+        kind: "unknown",
+        message: `unknown argument "${field}"` + (suggestion ? ` (the server expects "${suggestion}")` : ""),
+      });
+      continue;
+    }
+
+    const types = allowedTypes(property);
+    if (types.length && !types.some((type) => matchesType(type, value))) {
+      issues.push({
+        field,
+        kind: "type",
+        message: `"${field}" should be ${types.join(" or ")}, got ${describeType(value)}`,
+      });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Whether an issue should stop the call rather than just be reported.
+ */
+export function isBlocking(issue: ArgumentIssue, schema: ToolInputSchema, strict: boolean): boolean {
+  return issue.kind !== "unknown" || strict || schema.additionalProperties === false;
+}
+
+function suggestField(field: string, known: string[]): string | undefined {
+  const lower = field.toLowerCase();
+  const caseMatch = known.find((k) => k.toLowerCase() === lower);
+  if (caseMatch) return caseMatch;
+  const group = SYNONYMS.find((names) => names.includes(field));
+  return group?.find((name) => name !== field && known.includes(name));
+}
+
+function allowedTypes(property: Record<string, unknown>): string[] {
+  if (typeof property.type === "string") return [property.type];
+  if (Array.isArray(property.type)) return property.type as string[];
+  // Unions: accept any branch's type; an untyped branch accepts anything
+  const branches = (property.anyOf ?? property.oneOf) as Array<Record<string, unknown>> | undefined;
+  if (!branches) return [];
+  const types = branches.map(allowedTypes);
+  return types.some((t) => t.length === 0) ? [] : [...new Set(types.flat())];
+}
+
+function matchesType(type: string, value: unknown): boolean {
+  switch (type) {
+    case "string": return typeof value === "string";
+    case "number": return typeof value === "number";
+    case "integer": return Number.isInteger(value);
+    case "boolean": return typeof value === "boolean";
+    case "array": return Array.isArray(value);
+    case "object": return typeof value === "object" && value !== null && !Array.isArray(value);
+    case "null": return value === null;
+    default: return true;
+  }
+}
+
+function describeType(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}